@@ -1,10 +1,45 @@
-import React, { useRef, useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import styled from 'styled-components';
-import { Preview, PreviewState } from '@creatomate/preview';
+import { useRouter } from 'next/router';
+import { ElementState, PreviewState } from '@creatomate/preview';
+import { createPreview, PreviewAdapter } from '../utility/previewAdapter';
+import { EditorContext, useEditorStore } from '../utility/editorStore';
 import { useWindowWidth } from '../utility/useWindowWidth';
+import { fetchProject, ProjectSummary } from '../utility/projectsApi';
+import { clearDraft, getDraftKey, loadDraft } from '../utility/drafts';
+import { fetchShare } from '../utility/sharesApi';
+import { fetchRender } from '../utility/rendersApi';
+import { getDefaultTemplateId } from '../utility/templateRegistry';
+import type { Share } from '../server/shareStore';
 import { SettingsPanel } from './SettingsPanel';
+import { useNotifications } from './Notifications';
+import { SharePanel } from './SharePanel';
+import { Timeline } from './Timeline';
+
+interface AppProps {
+  // The project to open, or undefined to start editing the template from scratch
+  projectId?: string;
+  // The shared edit to show in read-only mode
+  shareId?: string;
+  // The template to start editing, instead of the default template
+  templateId?: string;
+  // A render from the history, of which the editor state is restored
+  renderId?: string;
+}
+
+// The state the editor is opened with, from a project, a recovered draft, or the template itself
+interface EditorState {
+  templateId: string;
+  project?: ProjectSummary;
+  modifications: Record<string, any>;
+  // Set when viewing a shared edit, which can't be changed
+  share?: Share;
+}
+
+const App: React.FC<AppProps> = (props) => {
+  const router = useRouter();
+  const { notifyError } = useNotifications();
 
-const App: React.FC = () => {
   // React Hook to update the component when the window width changes
   const windowWidth = useWindowWidth();
 
@@ -12,12 +47,30 @@ const App: React.FC = () => {
   const [videoAspectRatio, setVideoAspectRatio] = useState<number>();
 
   // Reference to the preview
-  const previewRef = useRef<Preview>();
+  const previewRef = useRef<PreviewAdapter>();
 
   // Current state of the preview
   const [isReady, setIsReady] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [currentState, setCurrentState] = useState<PreviewState>();
+  const [editorState, setEditorState] = useState<EditorState>();
+
+  // The source and modifications that are being edited, shared by the settings panel and the timeline
+  const editor = useEditorStore((error) => notifyError(error, { context: 'The preview could not be updated' }));
+
+  // The playback time is kept in a ref, as it changes too often to rerender the settings panel
+  const currentTimeRef = useRef(0);
+
+  const updateCurrentTime = useCallback((time: number) => {
+    currentTimeRef.current = time;
+  }, []);
+
+  // Seeks to the element that was clicked in the timeline and focuses its input in the settings panel
+  const selectElement = (element: ElementState) => {
+    editor.dispatch({ type: 'select', elementName: element.source.name });
+    focusElementInput(element.source.name);
+    previewRef.current?.setTime(element.globalTime);
+  };
 
   // This sets up the video player in the provided HTML DIV element
   const setUpPreview = (htmlElement: HTMLDivElement) => {
@@ -27,11 +80,19 @@ const App: React.FC = () => {
     }
 
     // Initialize a preview
-    const preview = new Preview(htmlElement, 'player', process.env.NEXT_PUBLIC_CREATOMATE_PUBLIC_TOKEN!);
+    const preview = createPreview(htmlElement, process.env.NEXT_PUBLIC_CREATOMATE_PUBLIC_TOKEN!);
 
-    // Once the SDK is ready, load a template from our project
+    // Once the SDK is ready, load the project or a template from our project
     preview.onReady = async () => {
-      await preview.loadTemplate(process.env.NEXT_PUBLIC_TEMPLATE_ID!);
+      // The player's own controls are replaced by the timeline
+      await preview.setControls(false);
+      if (props.shareId) {
+        setEditorState(await openShare(preview, props.shareId, notifyError));
+      } else {
+        const editorState = await openEditor(preview, notifyError, props.projectId, props.templateId, props.renderId);
+        editor.open(preview, { source: preview.getSource(), modifications: editorState.modifications });
+        setEditorState(editorState);
+      }
       setIsReady(true);
     };
 
@@ -53,36 +114,156 @@ const App: React.FC = () => {
   };
 
   return (
-    <Component>
-      <Wrapper>
-        <Container
-          ref={(htmlElement) => {
-            if (htmlElement && htmlElement !== previewRef.current?.element) {
-              setUpPreview(htmlElement);
-            }
-          }}
-          style={{
-            height:
-              videoAspectRatio && windowWidth && windowWidth < 768 ? window.innerWidth / videoAspectRatio : undefined,
-          }}
-        />
-      </Wrapper>
-
-      <Panel>
-        {isReady && (
-          <PanelContent id="panel">
-            <SettingsPanel preview={previewRef.current!} currentState={currentState} />
-          </PanelContent>
-        )}
-      </Panel>
-
-      {isLoading && <LoadIndicator>Loading...</LoadIndicator>}
-    </Component>
+    <EditorContext.Provider value={editor}>
+      <Component>
+        <Wrapper>
+          <Container
+            ref={(htmlElement) => {
+              if (htmlElement && htmlElement !== previewRef.current?.element) {
+                setUpPreview(htmlElement);
+              }
+            }}
+            style={{
+              height:
+                videoAspectRatio && windowWidth && windowWidth < 768 ? window.innerWidth / videoAspectRatio : undefined,
+            }}
+          />
+          {isReady && currentState && (
+            <Timeline
+              preview={previewRef.current!}
+              state={currentState}
+              onTimeChange={updateCurrentTime}
+              onSelectElement={selectElement}
+              selectedElementName={editor.state.selectedElementName}
+            />
+          )}
+        </Wrapper>
+
+        <Panel>
+          {isReady && editorState?.share && (
+            <PanelContent>
+              <SharePanel share={editorState.share} />
+            </PanelContent>
+          )}
+          {isReady && editorState && !editorState.share && (
+            <PanelContent id="panel">
+              <SettingsPanel
+                preview={previewRef.current!}
+                templateId={editorState.templateId}
+                currentState={currentState}
+                project={editorState.project}
+                getCurrentTime={() => currentTimeRef.current}
+                onProjectChange={(project) => {
+                  setEditorState({ ...editorState, project });
+
+                  // Update the address, so that reloading the page opens the project
+                  router.replace({ query: { ...router.query, project: project.id } }, undefined, { shallow: true });
+                }}
+                onTemplateChange={(templateId) => {
+                  setEditorState({ ...editorState, templateId });
+
+                  // Without a project, reloading the page opens the template in the address
+                  if (!editorState.project && router.pathname === '/editor/[templateId]') {
+                    router.replace({ query: { ...router.query, templateId } }, undefined, { shallow: true });
+                  }
+                }}
+              />
+            </PanelContent>
+          )}
+        </Panel>
+
+        {isLoading && <LoadIndicator>Loading...</LoadIndicator>}
+      </Component>
+    </EditorContext.Provider>
   );
 };
 
 export default App;
 
+// Reports the errors that occur while opening the editor, after which it falls back to the template
+type ErrorHandler = (error: unknown, options: { context: string }) => void;
+
+const openEditor = async (
+  preview: PreviewAdapter,
+  onError: ErrorHandler,
+  projectId?: string,
+  templateId?: string,
+  renderId?: string,
+): Promise<EditorState> => {
+  let editorState: EditorState | undefined;
+  let lastSavedAt: string | undefined;
+
+  if (projectId) {
+    try {
+      const { source, modifications, ...project } = await fetchProject(projectId);
+      await preview.setSource(source);
+      editorState = { templateId: project.templateId, project, modifications };
+      lastSavedAt = project.updatedAt;
+    } catch (error) {
+      onError(error, { context: 'The project could not be opened' });
+    }
+  }
+
+  if (!editorState && renderId) {
+    try {
+      const render = await fetchRender(renderId);
+      if (!render.templateId || !render.source) {
+        throw new Error('The editor state was not recorded for this render.');
+      }
+
+      await preview.setSource(render.source);
+      editorState = { templateId: render.templateId, modifications: render.modifications ?? {} };
+      lastSavedAt = render.createdAt;
+    } catch (error) {
+      onError(error, { context: 'The render could not be opened' });
+    }
+  }
+
+  if (!editorState) {
+    const initialTemplateId = templateId ?? getDefaultTemplateId();
+    await preview.loadTemplate(initialTemplateId);
+    editorState = { templateId: initialTemplateId, modifications: {} };
+  }
+
+  // Recover the changes that were made after the last save, for instance when the page was closed unexpectedly
+  const draftKey = getDraftKey(editorState.templateId, editorState.project?.id);
+  const draft = loadDraft(draftKey);
+  if (draft && (!lastSavedAt || draft.savedAt > lastSavedAt)) {
+    if (window.confirm(`There are unsaved changes from ${new Date(draft.savedAt).toLocaleString()}. Restore them?`)) {
+      await preview.setSource(draft.source);
+      editorState.modifications = draft.modifications;
+    } else {
+      clearDraft(draftKey);
+    }
+  }
+
+  await preview.setModifications(editorState.modifications);
+  return editorState;
+};
+
+const focusElementInput = (elementName: string) => {
+  const container = document.querySelector(`#panel [data-element-name="${CSS.escape(elementName)}"]`);
+  if (container) {
+    container.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    container.querySelector<HTMLElement>('textarea, input:not([type="file"]), select')?.focus({ preventScroll: true });
+  }
+};
+
+const openShare = async (
+  preview: PreviewAdapter,
+  shareId: string,
+  onError: ErrorHandler,
+): Promise<EditorState | undefined> => {
+  try {
+    const share = await fetchShare(shareId);
+    await preview.setSource(share.source);
+    await preview.setModifications(share.modifications);
+    return { templateId: share.templateId, modifications: share.modifications, share };
+  } catch (error) {
+    onError(error, { context: 'The shared video could not be opened' });
+  }
+};
+
 const Component = styled.div`
   width: 100vw;
   height: 100vh;
@@ -96,6 +277,7 @@ const Component = styled.div`
 
 const Wrapper = styled.div`
   display: flex;
+  flex-direction: column;
 
   @media (min-width: 768px) {
     flex: 1;
@@ -105,7 +287,8 @@ const Wrapper = styled.div`
 
 const Container = styled.div`
   width: 100%;
-  height: 100%;
+  min-height: 0;
+  flex: 1 1 auto;
   max-width: 720px;
   max-height: 720px;
   margin: auto;
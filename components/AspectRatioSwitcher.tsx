@@ -0,0 +1,47 @@
+import React from 'react';
+import styled from 'styled-components';
+import { AspectRatio, aspectRatios } from '../utility/aspectRatios';
+
+interface AspectRatioSwitcherProps {
+  // The aspect ratio of the video, or undefined when it doesn't match any of the formats
+  value?: AspectRatio;
+  onChange: (aspectRatio: AspectRatio) => void;
+}
+
+export const AspectRatioSwitcher: React.FC<AspectRatioSwitcherProps> = (props) => {
+  return (
+    <Component>
+      {aspectRatios.map((aspectRatio) => (
+        <Option
+          key={aspectRatio.id}
+          selected={aspectRatio.id === props.value?.id}
+          title={`${aspectRatio.label} (${aspectRatio.id})`}
+          onClick={() => aspectRatio.id !== props.value?.id && props.onChange(aspectRatio)}
+        >
+          {aspectRatio.id}
+        </Option>
+      ))}
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  display: flex;
+  margin-top: 20px;
+  padding: 3px;
+  background: #f5f7f8;
+  border-radius: 5px;
+`;
+
+const Option = styled.button<{ selected: boolean }>`
+  flex: 1;
+  padding: 7px;
+  border: none;
+  border-radius: 4px;
+  background: ${(props) => (props.selected ? '#fff' : 'transparent')};
+  box-shadow: ${(props) => (props.selected ? 'rgba(0, 0, 0, 0.1) 0 1px 3px 0' : 'none')};
+  color: ${(props) => (props.selected ? '#0065eb' : '#4d5966')};
+  font-size: 14px;
+  font-weight: 500;
+  cursor: pointer;
+`;
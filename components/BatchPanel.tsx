@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { PreviewAdapter } from '../utility/previewAdapter';
+import { useEditor } from '../utility/editorStore';
+import { BatchRow, BatchStatus, fetchBatch, parseBatchData, startBatch } from '../utility/batchData';
+import { defaultOutputOptions } from '../utility/outputOptions';
+import { Group, GroupTitle } from './Group';
+import { Button } from './Button';
+import { useNotifications } from './Notifications';
+
+interface BatchPanelProps {
+  preview: PreviewAdapter;
+  templateId: string;
+  title?: string;
+  // Changes whenever the user edits the video, which ends previewing a row
+  revision: number;
+}
+
+// The ID of the batch in progress is kept in local storage, so that it can be resumed after a page reload
+const storageKey = 'renderBatchId';
+
+// How often the status of the batch is requested, in milliseconds
+const pollInterval = 3000;
+
+export const BatchPanel: React.FC<BatchPanelProps> = (props) => {
+  const { notifyError } = useNotifications();
+  const editor = useEditor();
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [previewIndex, setPreviewIndex] = useState<number>();
+  const [batch, setBatch] = useState<BatchStatus>();
+  const [isStarting, setIsStarting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Resume the batch that was in progress before the page was reloaded
+  useEffect(() => {
+    const batchId = window.localStorage.getItem(storageKey);
+    if (batchId) {
+      fetchBatch(batchId)
+        .then(setBatch)
+        .catch(() => window.localStorage.removeItem(storageKey));
+    }
+  }, []);
+
+  // Any edit applies the modifications of the editor again, so the row is no longer shown
+  useEffect(() => {
+    setPreviewIndex(undefined);
+  }, [props.revision]);
+
+  const isRendering = !!batch?.rows.some((row) => row.status !== 'succeeded' && row.status !== 'failed');
+
+  // Poll the status of the batch until all renders have finished
+  useEffect(() => {
+    if (!batch || !isRendering) {
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        setBatch(await fetchBatch(batch.id));
+      } catch (error) {
+        // Try again on the next poll
+        setBatch({ ...batch });
+      }
+    }, pollInterval);
+
+    return () => clearTimeout(timeout);
+  }, [batch, isRendering]);
+
+  const loadFile = async (file: File) => {
+    try {
+      const rows = parseBatchData(file.name, await file.text());
+      await showRow(undefined);
+      setRows(rows);
+    } catch (error) {
+      notifyError(error, { context: 'The file could not be read' });
+    }
+  };
+
+  const showRow = async (index?: number) => {
+    setPreviewIndex(index);
+
+    // The values of the row are applied on top of the modifications of the editor, after any edits still on their way
+    try {
+      await editor.flush();
+      const rowModifications = index !== undefined ? rows[index] : {};
+      await props.preview.setModifications({ ...editor.getState().modifications, ...rowModifications });
+    } catch (error) {
+      notifyError(error, { context: 'The row could not be shown' });
+    }
+  };
+
+  const renderAll = async () => {
+    setIsStarting(true);
+    try {
+      const batch = await startBatch({
+        source: editor.getState().source,
+        templateId: props.templateId,
+        modifications: editor.getState().modifications,
+        rows,
+        output: defaultOutputOptions,
+        title: props.title,
+      });
+      window.localStorage.setItem(storageKey, batch.id);
+      setBatch(batch);
+    } catch (error) {
+      notifyError(error, { context: 'The batch could not be started', retry: renderAll });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const finishedCount = batch?.rows.filter((row) => row.status === 'succeeded' || row.status === 'failed').length;
+
+  return (
+    <Group>
+      <GroupTitle>Batch</GroupTitle>
+      <Hint>
+        Upload a CSV file with a header row of element names such as <code>Title</code> or <code>Slide-1-Image</code>,
+        or a JSON array of modifications, to render a video for each row.
+      </Hint>
+      <Button onClick={() => fileInputRef.current?.click()} style={{ background: '#fff', color: '#333' }}>
+        {rows.length > 0 ? 'Replace Data File' : 'Upload Data File'}
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) {
+            loadFile(file);
+          }
+        }}
+      />
+
+      {rows.length > 0 && (
+        <Rows>
+          {rows.map((row, i) => (
+            <Row key={i} selected={i === previewIndex} onClick={() => showRow(i === previewIndex ? undefined : i)}>
+              <RowNumber>{i + 1}</RowNumber>
+              <RowValues>{Object.values(row).join(', ')}</RowValues>
+            </Row>
+          ))}
+        </Rows>
+      )}
+
+      {previewIndex !== undefined && (
+        <Notice>
+          Previewing row {previewIndex + 1}
+          <LinkButton onClick={() => showRow(undefined)}>Back to editor</LinkButton>
+        </Notice>
+      )}
+
+      {rows.length > 0 && (
+        <Button disabled={isStarting || isRendering} onClick={renderAll} style={{ width: '100%', marginTop: 15 }}>
+          {isStarting ? 'Starting...' : `Render All (${rows.length})`}
+        </Button>
+      )}
+
+      {batch && (
+        <Results>
+          <ResultsTitle>
+            {isRendering ? `Rendering ${finishedCount} of ${batch.rows.length}...` : 'Batch finished'}
+          </ResultsTitle>
+          {batch.rows.map((row) => (
+            <Result key={row.index}>
+              <RowNumber>{row.index + 1}</RowNumber>
+              {row.downloadUrl ? (
+                <a href={row.downloadUrl}>Download</a>
+              ) : (
+                <span title={row.errorMessage}>{row.status === 'failed' ? 'Failed' : 'Rendering...'}</span>
+              )}
+            </Result>
+          ))}
+          {!isRendering && batch.rows.some((row) => row.downloadUrl) && (
+            <a href={`/api/batches/${encodeURIComponent(batch.id)}/zip`}>Download all as ZIP</a>
+          )}
+        </Results>
+      )}
+    </Group>
+  );
+};
+
+const Hint = styled.div`
+  margin-bottom: 15px;
+  font-size: 14px;
+  color: #8c99a6;
+`;
+
+const Rows = styled.div`
+  margin-top: 15px;
+  max-height: 200px;
+  overflow-y: auto;
+  background: #fff;
+  border-radius: 5px;
+`;
+
+const Row = styled.div<{ selected: boolean }>`
+  display: flex;
+  padding: 8px 10px;
+  font-size: 14px;
+  background: ${(props) => (props.selected ? '#e6f0fd' : 'transparent')};
+  cursor: pointer;
+
+  &:hover {
+    background: #e6f0fd;
+  }
+`;
+
+const RowNumber = styled.div`
+  flex-shrink: 0;
+  width: 30px;
+  color: #8c99a6;
+`;
+
+const RowValues = styled.div`
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const Notice = styled.div`
+  display: flex;
+  margin-top: 10px;
+  font-size: 14px;
+  color: #4d5966;
+`;
+
+const LinkButton = styled.button`
+  margin-left: auto;
+  padding: 0;
+  border: none;
+  background: none;
+  font-size: 14px;
+  color: #0065eb;
+  cursor: pointer;
+`;
+
+const Results = styled.div`
+  margin-top: 15px;
+  font-size: 14px;
+
+  a {
+    color: #0065eb;
+  }
+`;
+
+const ResultsTitle = styled.div`
+  margin-bottom: 5px;
+  font-weight: 600;
+`;
+
+const Result = styled.div`
+  display: flex;
+  padding: 3px 0;
+`;
@@ -0,0 +1,232 @@
+import React, { Fragment, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { PreviewAdapter } from '../utility/previewAdapter';
+import type { BrandKit } from '../server/brandKitStore';
+import { BrandKitStyle, defaultBrandKitStyle, fontFamilies, fontWeights, logoPositions } from '../utility/brandKit';
+import { createBrandKit, deleteBrandKit, listBrandKits, updateBrandKit } from '../utility/brandKitsApi';
+import { Group, GroupTitle } from './Group';
+import { SelectInput } from './SelectInput';
+import { ColorInput } from './ColorInput';
+import { MediaLibrary } from './MediaLibrary';
+import { useNotifications } from './Notifications';
+
+// The brand kit that is applied to the video, with the ID of the saved kit it was chosen from
+export interface AppliedBrandKit {
+  id?: string;
+  style: BrandKitStyle;
+}
+
+interface BrandKitPanelProps {
+  preview: PreviewAdapter;
+  value?: AppliedBrandKit;
+  // The ID of the brand kit that was applied when the project was saved
+  initialBrandKitId?: string;
+  // Called with the saved brand kit of the project once it's loaded, which is already applied to the video
+  onLoad: (value: AppliedBrandKit) => void;
+  // Color changes are passed with a merge key, so that dragging the color picker is combined into one undo step
+  onChange: (value: AppliedBrandKit, mergeKey?: string) => void;
+}
+
+export const BrandKitPanel: React.FC<BrandKitPanelProps> = (props) => {
+  const { notifyError } = useNotifications();
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { initialBrandKitId, onLoad } = props;
+
+  useEffect(() => {
+    listBrandKits()
+      .then((brandKits) => {
+        setBrandKits(brandKits);
+
+        const brandKit = brandKits.find((brandKit) => brandKit.id === initialBrandKitId);
+        if (brandKit) {
+          onLoad({ id: brandKit.id, style: getStyle(brandKit) });
+        }
+      })
+      .catch(() => undefined);
+  }, [initialBrandKitId, onLoad]);
+
+  const style = props.value?.style ?? defaultBrandKitStyle;
+  const selectedBrandKit = brandKits.find((brandKit) => brandKit.id === props.value?.id);
+
+  const change = (changes: Partial<BrandKitStyle>, mergeKey?: string) => {
+    props.onChange({ id: props.value?.id, style: { ...style, ...changes } }, mergeKey);
+  };
+
+  const save = async (asNew: boolean) => {
+    const name = asNew || !selectedBrandKit ? window.prompt('Brand kit name', 'My brand') : selectedBrandKit.name;
+    if (name === null) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const brandKit =
+        asNew || !selectedBrandKit
+          ? await createBrandKit({ ...style, name })
+          : await updateBrandKit(selectedBrandKit.id, { ...style, name });
+
+      setBrandKits([...brandKits.filter((otherBrandKit) => otherBrandKit.id !== brandKit.id), brandKit]);
+      props.onChange({ id: brandKit.id, style });
+    } catch (error) {
+      notifyError(error, { context: 'The brand kit could not be saved' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const remove = async (brandKit: BrandKit) => {
+    if (!window.confirm(`Delete the brand kit '${brandKit.name}'? This doesn't change the video.`)) {
+      return;
+    }
+
+    try {
+      await deleteBrandKit(brandKit.id);
+      setBrandKits(brandKits.filter((otherBrandKit) => otherBrandKit.id !== brandKit.id));
+      props.onChange({ style });
+    } catch (error) {
+      notifyError(error, { context: 'The brand kit could not be deleted' });
+    }
+  };
+
+  return (
+    <Group>
+      <GroupTitle>Brand Kit</GroupTitle>
+
+      <SelectInput
+        value={selectedBrandKit?.id ?? ''}
+        onChange={(e) => {
+          const brandKit = brandKits.find((brandKit) => brandKit.id === e.target.value);
+          if (brandKit) {
+            props.onChange({ id: brandKit.id, style: getStyle(brandKit) });
+          }
+        }}
+      >
+        <option value="">{props.value ? 'Unsaved brand kit' : 'Choose a brand kit...'}</option>
+        {brandKits.map((brandKit) => (
+          <option key={brandKit.id} value={brandKit.id}>
+            {brandKit.name}
+          </option>
+        ))}
+      </SelectInput>
+
+      <Columns>
+        <div>
+          <Label>Primary color</Label>
+          <ColorInput
+            value={style.primaryColor}
+            onChange={(e) => change({ primaryColor: e.target.value }, 'primaryColor')}
+          />
+        </div>
+        <div>
+          <Label>Secondary color</Label>
+          <ColorInput
+            value={style.secondaryColor}
+            onChange={(e) => change({ secondaryColor: e.target.value }, 'secondaryColor')}
+          />
+        </div>
+      </Columns>
+
+      <Columns>
+        <div>
+          <Label>Font</Label>
+          <SelectInput value={style.fontFamily} onChange={(e) => change({ fontFamily: e.target.value })}>
+            {fontFamilies.map((fontFamily) => (
+              <option key={fontFamily} value={fontFamily}>
+                {fontFamily}
+              </option>
+            ))}
+          </SelectInput>
+        </div>
+        <div>
+          <Label>Weight</Label>
+          <SelectInput value={style.fontWeight} onChange={(e) => change({ fontWeight: e.target.value })}>
+            {fontWeights.map((fontWeight) => (
+              <option key={fontWeight} value={fontWeight}>
+                {fontWeight}
+              </option>
+            ))}
+          </SelectInput>
+        </div>
+      </Columns>
+
+      <Label>Logo</Label>
+      <MediaLibrary
+        preview={props.preview}
+        type="image"
+        value={style.logoUrl}
+        onSelect={(logoUrl) => change({ logoUrl })}
+      />
+      {style.logoUrl && (
+        <Fragment>
+          <SelectInput
+            value={style.logoPosition}
+            onChange={(e) => change({ logoPosition: e.target.value as BrandKitStyle['logoPosition'] })}
+          >
+            {logoPositions.map((position) => (
+              <option key={position} value={position}>
+                Logo {position.replace('-', ' ')}
+              </option>
+            ))}
+          </SelectInput>
+          <LinkButton onClick={() => change({ logoUrl: undefined })}>Remove logo</LinkButton>
+        </Fragment>
+      )}
+
+      <Actions>
+        <LinkButton disabled={isSaving} onClick={() => save(false)}>
+          {selectedBrandKit ? 'Update brand kit' : 'Save brand kit'}
+        </LinkButton>
+        {selectedBrandKit && (
+          <Fragment>
+            <LinkButton disabled={isSaving} onClick={() => save(true)}>
+              Save as new
+            </LinkButton>
+            <LinkButton onClick={() => remove(selectedBrandKit)}>Delete</LinkButton>
+          </Fragment>
+        )}
+      </Actions>
+    </Group>
+  );
+};
+
+const getStyle = ({ primaryColor, secondaryColor, fontFamily, fontWeight, logoUrl, logoPosition }: BrandKit) => {
+  return { primaryColor, secondaryColor, fontFamily, fontWeight, logoUrl, logoPosition };
+};
+
+const Label = styled.div`
+  margin-top: 15px;
+  font-size: 14px;
+  color: #4d5966;
+`;
+
+const Columns = styled.div`
+  display: flex;
+  gap: 10px;
+
+  > * {
+    flex: 1;
+    min-width: 0;
+  }
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: 15px;
+  margin-top: 15px;
+`;
+
+const LinkButton = styled.button`
+  padding: 0;
+  border: none;
+  background: none;
+  color: #0065eb;
+  font-size: 14px;
+  cursor: pointer;
+
+  &:disabled {
+    color: #b3bfcc;
+    cursor: default;
+  }
+`;
@@ -0,0 +1,155 @@
+import React, { useRef } from 'react';
+import styled from 'styled-components';
+import { PreviewAdapter } from '../utility/previewAdapter';
+import { Cue, formatSrt, parseSubtitles, subtitlePrefix, SubtitleStyle } from '../utility/subtitles';
+import { Group, GroupTitle } from './Group';
+import { SelectInput } from './SelectInput';
+import { TextInput } from './TextInput';
+import { DecimalInput } from './DecimalInput';
+import { useNotifications } from './Notifications';
+
+interface CaptionsPanelProps {
+  preview: PreviewAdapter;
+  cues: Cue[];
+  style: SubtitleStyle;
+  // Typing is passed with a merge key, so that it's combined into one undo step
+  onChange: (cues: Cue[], style: SubtitleStyle, mergeKey?: string) => void;
+  // Used to name the exported file
+  title?: string;
+}
+
+export const CaptionsPanel: React.FC<CaptionsPanelProps> = (props) => {
+  const { notifyError } = useNotifications();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { cues, style } = props;
+
+  const importFile = async (file: File) => {
+    try {
+      const cues = parseSubtitles(await file.text());
+      if (!props.cues.length || window.confirm('Replace the current captions?')) {
+        props.onChange(cues, style);
+      }
+    } catch (error) {
+      notifyError(error, { context: 'The subtitles could not be read' });
+    }
+  };
+
+  const exportFile = () => {
+    const url = URL.createObjectURL(new Blob([formatSrt(cues)], { type: 'application/x-subrip' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${props.title || 'captions'}.srt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const changeCue = (index: number, changes: Partial<Cue>, mergeKey: string) => {
+    props.onChange(
+      cues.map((cue, i) => (i === index ? { ...cue, ...changes } : cue)),
+      style,
+      `${index}.${mergeKey}`,
+    );
+  };
+
+  return (
+    <Group>
+      <GroupTitle>Captions</GroupTitle>
+      <Actions>
+        <LinkButton onClick={() => fileInputRef.current?.click()}>Import SRT or VTT</LinkButton>
+        {cues.length > 0 && <LinkButton onClick={exportFile}>Export SRT</LinkButton>}
+        {cues.length > 0 && <LinkButton onClick={() => props.onChange([], style)}>Remove all</LinkButton>}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".srt,.vtt,text/vtt,application/x-subrip"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) {
+              importFile(file);
+            }
+          }}
+        />
+      </Actions>
+
+      {cues.length > 0 && (
+        <SelectInput value={style} onChange={(e) => props.onChange(cues, e.target.value as SubtitleStyle)}>
+          <option value="block-text">Block Text</option>
+          <option value="rounded-text">Rounded Text</option>
+        </SelectInput>
+      )}
+
+      {cues.map((cue, i) => (
+        <CueRow key={i} data-element-name={`${subtitlePrefix}${i + 1}`}>
+          <Timing>
+            <DecimalInput
+              value={cue.start}
+              min={0}
+              step={0.1}
+              title="Start time in seconds"
+              onFocus={() => props.preview.setTime(cue.start)}
+              onChange={(start) => changeCue(i, { start }, 'start')}
+            />
+            –
+            <DecimalInput
+              value={cue.end}
+              min={0}
+              step={0.1}
+              title="End time in seconds"
+              onFocus={() => props.preview.setTime(cue.start)}
+              onChange={(end) => changeCue(i, { end }, 'end')}
+            />
+            <LinkButton
+              title="Remove caption"
+              onClick={() =>
+                props.onChange(
+                  cues.filter((otherCue) => otherCue !== cue),
+                  style,
+                )
+              }
+            >
+              Remove
+            </LinkButton>
+          </Timing>
+          <TextInput
+            value={cue.text}
+            style={{ height: 55 }}
+            onFocus={() => props.preview.setTime(cue.start)}
+            onChange={(e) => changeCue(i, { text: e.target.value }, 'text')}
+          />
+        </CueRow>
+      ))}
+    </Group>
+  );
+};
+
+const Actions = styled.div`
+  display: flex;
+  gap: 15px;
+  margin-bottom: 10px;
+`;
+
+const CueRow = styled.div`
+  margin-top: 15px;
+`;
+
+const Timing = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  font-size: 14px;
+
+  > button {
+    margin-left: auto;
+  }
+`;
+
+const LinkButton = styled.button`
+  padding: 0;
+  border: none;
+  background: none;
+  color: #0065eb;
+  font-size: 14px;
+  cursor: pointer;
+`;
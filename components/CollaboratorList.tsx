@@ -0,0 +1,52 @@
+import React from 'react';
+import styled from 'styled-components';
+import { Peer } from '../utility/collaboration';
+
+interface CollaboratorListProps {
+  peers: Peer[];
+  // Called when a person is clicked, to show what they're editing
+  onFollow: (peer: Peer) => void;
+}
+
+// The other people editing the project, each in the color that marks the field they're editing
+export const CollaboratorList: React.FC<CollaboratorListProps> = (props) => {
+  return (
+    <Component>
+      Also editing:
+      {props.peers.map((peer) => (
+        <PeerButton
+          key={peer.id}
+          style={{ background: peer.color }}
+          disabled={!peer.elementName}
+          title={peer.elementName ? `Show what ${peer.name} is editing` : undefined}
+          onClick={() => props.onFollow(peer)}
+        >
+          {peer.name}
+        </PeerButton>
+      ))}
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 5px;
+  margin-bottom: 20px;
+  font-size: 14px;
+  color: #4d5966;
+`;
+
+const PeerButton = styled.button`
+  padding: 2px 8px;
+  border: none;
+  border-radius: 10px;
+  color: #fff;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:disabled {
+    cursor: default;
+  }
+`;
@@ -0,0 +1,20 @@
+import React from 'react';
+import styled from 'styled-components';
+
+export const ColorInput = styled.input.attrs({ type: 'color' })`
+  display: block;
+  margin: 5px 0;
+  padding: 5px;
+  width: 100%;
+  height: 45px;
+  background-color: #fff;
+  border: 1px solid #b3bfcc;
+  border-radius: 5px;
+  outline: none;
+  cursor: pointer;
+
+  &:focus {
+    background-color: #e9f4fc;
+    border-color: #005aff;
+  }
+`;
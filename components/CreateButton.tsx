@@ -1,56 +1,245 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import styled from 'styled-components';
-import { Preview } from '@creatomate/preview';
+import { PreviewAdapter } from '../utility/previewAdapter';
+import { defaultOutputOptions, isSnapshotFormat, OutputOptions } from '../utility/outputOptions';
+import { fetchSession, Session } from '../utility/authApi';
+import { aspectRatios, convertAspectRatio } from '../utility/aspectRatios';
+import { readApiError } from '../utility/apiErrors';
+import { useEditor } from '../utility/editorStore';
 import { Button } from './Button';
+import { OutputOptionsForm } from './OutputOptionsForm';
+import { useNotifications } from './Notifications';
 
 interface CreateButtonProps {
-  preview: Preview;
+  preview: PreviewAdapter;
+  // The template the source derives from, which the server may require to be approved
+  templateId: string;
+  // Used to name the downloaded file
+  title?: string;
+  // Returns the current playback time, at which snapshots are taken
+  getCurrentTime: () => number;
+  // The labels of the texts that may not fit in their text boxes
+  overflowingTexts: string[];
+}
+
+// The renders in progress are kept in local storage, so that they can be resumed after a page reload
+const storageKey = 'renderJobs';
+
+// How often the status of the renders is requested, in milliseconds
+const pollInterval = 2000;
+
+// A render of one of the formats that were started together, labeled with its aspect ratio when there are several
+interface Render {
+  label?: string;
+  job: any;
 }
 
 export const CreateButton: React.FC<CreateButtonProps> = (props) => {
-  const [isRendering, setIsRendering] = useState(false);
-  const [render, setRender] = useState<any>();
+  const [renders, setRenders] = useState<Render[]>([]);
+  const [elapsedTime, setElapsedTime] = useState(0);
+  const [outputOptions, setOutputOptions] = useState<OutputOptions>(defaultOutputOptions);
+  // The aspect ratios to render, or empty to render the video as it is
+  const [aspectRatioIds, setAspectRatioIds] = useState<string[]>([]);
+  const [showOptions, setShowOptions] = useState(false);
+  const [session, setSession] = useState<Session>();
+  const { notify, notifyError } = useNotifications();
+  const editor = useEditor();
+
+  // Resume the renders that were in progress before the page was reloaded
+  useEffect(() => {
+    try {
+      const storedRenders = JSON.parse(window.localStorage.getItem(storageKey) ?? '[]');
+      setRenders(storedRenders.map(({ id, label }: any) => ({ label, job: { id, status: 'planned' } })));
+    } catch (error) {
+      window.localStorage.removeItem(storageKey);
+    }
+  }, []);
+
+  const updateRenders = useCallback((renders: Render[]) => {
+    if (renders.length > 0) {
+      const storedRenders = renders.map(({ label, job }) => ({ id: job.id, label }));
+      window.localStorage.setItem(storageKey, JSON.stringify(storedRenders));
+    } else {
+      window.localStorage.removeItem(storageKey);
+    }
+    setRenders(renders);
+  }, []);
+
+  // The first render that hasn't finished yet, of which the status is shown
+  const renderingJob = renders.find(({ job }) => !isFinished(job))?.job;
+  const isRendering = !!renderingJob;
+
+  // Get the remaining quota of the signed in user, which is updated once the renders have finished
+  useEffect(() => {
+    if (!isRendering) {
+      fetchSession()
+        .then(setSession)
+        .catch(() => undefined);
+    }
+  }, [isRendering]);
+
+  // Poll the status of the renders until they have finished
+  useEffect(() => {
+    if (!isRendering || !renderingJob?.id) {
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      const updatedRenders: Render[] = [];
+      const errorMessages: string[] = [];
+
+      for (const render of renders) {
+        if (isFinished(render.job)) {
+          updatedRenders.push(render);
+          continue;
+        }
+
+        try {
+          const updatedJob = await fetchJob(render.job.id);
+          if (updatedJob?.status === 'failed') {
+            errorMessages.push(`${render.label ? `${render.label}: ` : ''}${updatedJob.errorMessage}`);
+          } else if (updatedJob) {
+            updatedRenders.push({ ...render, job: updatedJob });
+          }
+          // A job that no longer exists is dropped, e.g. because the server's store was cleared
+        } catch (error) {
+          // Try again on the next poll, the connection may be interrupted temporarily
+          updatedRenders.push({ ...render, job: { ...render.job } });
+        }
+      }
+
+      updateRenders(updatedRenders);
+      if (errorMessages.length > 0) {
+        notify({ type: 'error', message: 'Rendering failed', details: errorMessages });
+      }
+    }, pollInterval);
+
+    return () => clearTimeout(timeout);
+  }, [renders, renderingJob, isRendering, updateRenders, notify]);
+
+  // Show the time that has passed since the render was started
+  useEffect(() => {
+    if (!isRendering || !renderingJob?.createdAt) {
+      return;
+    }
+
+    const updateElapsedTime = () =>
+      setElapsedTime(Math.round((Date.now() - Date.parse(renderingJob.createdAt)) / 1000));
+    updateElapsedTime();
+
+    const interval = setInterval(updateElapsedTime, 1000);
+    return () => clearInterval(interval);
+  }, [renderingJob, isRendering]);
+
+  // Starts the renders, which can be tried again from the error notification
+  const create = async () => {
+    // Overflowing text is cut off in the video, so confirm that it should be rendered anyway
+    const overflowMessage = `These texts may not fit in their text boxes:\n${props.overflowingTexts.join(
+      '\n',
+    )}\n\nCreate the video anyway?`;
+    if (props.overflowingTexts.length > 0 && !window.confirm(overflowMessage)) {
+      return;
+    }
+
+    setShowOptions(false);
+    setRenders([{ job: { status: 'planned' } }]);
+
+    const output = isSnapshotFormat(outputOptions.format)
+      ? { ...outputOptions, snapshotTime: props.getCurrentTime() }
+      : outputOptions;
+
+    // Without any aspect ratios selected, the video is rendered as it is shown in the preview
+    // The modifications are recorded along with it, so that the render can be opened in the editor again
+    let source: Record<string, any>;
+    try {
+      await editor.flush();
+      source = props.preview.getSource();
+    } catch (error) {
+      updateRenders([]);
+      notifyError(error, { context: 'The video could not be created', retry: create });
+      return;
+    }
+
+    const modifications = editor.getState().modifications;
+    const variants = aspectRatioIds.length > 0 ? aspectRatioIds : [undefined];
+
+    const startedRenders: Render[] = [];
+    const errors: unknown[] = [];
+    for (const aspectRatioId of variants) {
+      const aspectRatio = aspectRatios.find((aspectRatio) => aspectRatio.id === aspectRatioId);
+      try {
+        const job = await startVideo(
+          aspectRatio ? convertAspectRatio(source, aspectRatio) : source,
+          props.templateId,
+          output,
+          aspectRatio ? `${props.title ?? 'video'} ${aspectRatio.id.replace(':', 'x')}` : props.title,
+          modifications,
+        );
+        startedRenders.push({ label: aspectRatio?.id, job });
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+
+    updateRenders(startedRenders);
+    if (errors.length > 0) {
+      notifyError(errors[0], { context: 'The video could not be created', retry: create });
+    }
+  };
 
   if (isRendering) {
-    return <Component style={{ background: '#e67e22' }}>Rendering...</Component>;
+    const finishedCount = renders.filter(({ job }) => isFinished(job)).length;
+    return (
+      <Component style={{ background: '#e67e22' }}>
+        {getStatusLabel(renderingJob.status)}
+        {renders.length > 1 && ` ${finishedCount + 1}/${renders.length}`}
+        {renderingJob.createdAt && ` ${elapsedTime}s`}
+      </Component>
+    );
   }
 
-  if (render) {
+  if (renders.length > 0) {
+    // Each download is removed once it's clicked, until all of them have been downloaded
     return (
-      <Component
-        style={{ background: '#2ecc71' }}
-        onClick={() => {
-          window.open(render.url, '_blank');
-          setRender(undefined);
-        }}
-      >
-        Download
-      </Component>
+      <Wrapper>
+        {renders.map((render) => (
+          <Component
+            key={render.job.id}
+            style={{ background: '#2ecc71', marginLeft: 5 }}
+            onClick={() => {
+              window.open(`/api/videos/${encodeURIComponent(render.job.id)}/download`, '_blank');
+              updateRenders(renders.filter((otherRender) => otherRender !== render));
+            }}
+          >
+            {render.label ? `Download ${render.label}` : 'Download'}
+          </Component>
+        ))}
+      </Wrapper>
     );
   }
 
   return (
-    <Component
-      style={{ display: 'block', marginLeft: 'auto' }}
-      onClick={async () => {
-        setIsRendering(true);
-
-        try {
-          const render = await finishVideo(props.preview);
-          if (render.status === 'succeeded') {
-            setRender(render);
-          } else {
-            window.alert(`Rendering failed: ${render.errorMessage}`);
-          }
-        } catch (error) {
-          window.alert(error);
-        } finally {
-          setIsRendering(false);
-        }
-      }}
-    >
-      Create Video
-    </Component>
+    <Wrapper>
+      {session?.quota && (
+        <QuotaLabel title="Render minutes left this month">
+          {Math.floor(session.quota.remainingMinutes * 10) / 10} min left
+        </QuotaLabel>
+      )}
+      <Component style={{ borderTopRightRadius: 0, borderBottomRightRadius: 0 }} onClick={create}>
+        {getCreateLabel(outputOptions, aspectRatioIds.length)}
+      </Component>
+      <OptionsToggle onClick={() => setShowOptions(!showOptions)} title="Output settings">
+        ▾
+      </OptionsToggle>
+      {showOptions && (
+        <OutputOptionsForm
+          value={outputOptions}
+          onChange={setOutputOptions}
+          aspectRatioIds={aspectRatioIds}
+          onAspectRatioIdsChange={setAspectRatioIds}
+        />
+      )}
+    </Wrapper>
   );
 };
 
@@ -59,23 +248,90 @@ const Component = styled(Button)`
   margin-left: auto;
 `;
 
-const finishVideo = async (preview: Preview) => {
+const Wrapper = styled.div`
+  position: relative;
+  display: flex;
+  margin-left: auto;
+`;
+
+const QuotaLabel = styled.div`
+  align-self: center;
+  margin-right: 10px;
+  font-size: 14px;
+  color: #8c99a6;
+  white-space: nowrap;
+`;
+
+const OptionsToggle = styled(Button)`
+  padding: 10px;
+  border-left: 1px solid rgba(255, 255, 255, 0.3);
+  border-top-left-radius: 0;
+  border-bottom-left-radius: 0;
+`;
+
+const getCreateLabel = (options: OutputOptions, variantCount: number) => {
+  const suffix = variantCount > 1 ? ` (${variantCount})` : '';
+  switch (options.format) {
+    case 'gif':
+      return `Create GIF${suffix}`;
+    case 'jpg':
+    case 'png':
+      return `Create Snapshot${suffix}`;
+    default:
+      return `Create Video${suffix}`;
+  }
+};
+
+const isFinished = (job: any) => job.status === 'succeeded' || job.status === 'failed';
+
+const getStatusLabel = (status: string) => {
+  switch (status) {
+    case 'rendering':
+      return 'Rendering...';
+    case 'transcribing':
+      return 'Transcribing...';
+    default:
+      return 'Queued...';
+  }
+};
+
+const startVideo = async (
+  source: Record<string, any>,
+  templateId: string,
+  output: OutputOptions,
+  title: string | undefined,
+  modifications: Record<string, any>,
+) => {
   const response = await fetch('/api/videos', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
-      source: preview.getSource(),
+      source,
+      templateId,
+      output,
+      title,
+      modifications,
     }),
   });
 
   if (!response.ok) {
-    if (response.status === 401) {
-      throw new Error('No API key was provided. Please refer to the README.md for instructions.');
-    } else {
-      throw new Error(`The request failed with status code ${response.status}`);
-    }
+    // Explains why the video cannot be rendered, e.g. when signed out, out of quota, or rate limited
+    throw await readApiError(response);
+  }
+
+  return await response.json();
+};
+
+const fetchJob = async (id: string) => {
+  const response = await fetch(`/api/videos/${encodeURIComponent(id)}`);
+  if (response.status === 404) {
+    return undefined;
+  }
+
+  if (!response.ok) {
+    throw await readApiError(response);
   }
 
   return await response.json();
@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+import { NumberInput } from './NumberInput';
+
+interface DecimalInputProps {
+  value: number;
+  min: number;
+  max?: number;
+  step: number;
+  title?: string;
+  onFocus?: () => void;
+  onChange: (value: number) => void;
+}
+
+// A number input that only passes on valid values, while allowing intermediate input such as '1.'
+export const DecimalInput: React.FC<DecimalInputProps> = ({ value, min, max, onChange, ...props }) => {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    setText((text) => (Number(text) === value ? text : String(Math.round(value * 100) / 100)));
+  }, [value]);
+
+  return (
+    <NumberInput
+      {...props}
+      min={min}
+      max={max}
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const number = Number(e.target.value);
+        if (e.target.value && number >= min && (max === undefined || number <= max) && number !== value) {
+          onChange(number);
+        }
+      }}
+    />
+  );
+};
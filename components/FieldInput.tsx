@@ -0,0 +1,164 @@
+import React from 'react';
+import styled from 'styled-components';
+import { PreviewAdapter } from '../utility/previewAdapter';
+import { useEditor } from '../utility/editorStore';
+import { Peer } from '../utility/collaboration';
+import { Field } from '../utility/templateFields';
+import { ensureElementVisibility } from '../utility/ensureElementVisibility';
+import { TextInput } from './TextInput';
+import { SelectInput } from './SelectInput';
+import { ColorInput } from './ColorInput';
+import { MediaLibrary } from './MediaLibrary';
+
+interface FieldInputProps {
+  preview: PreviewAdapter;
+  field: Field;
+  // Whether the text doesn't fit in its text box, as estimated by utility/textFit.ts
+  overflows?: boolean;
+  // The other people in the collaboration session that are editing this element
+  peers?: Peer[];
+  // Keystrokes are passed with a merge key, so that they can be combined into one undo step
+  onChange: (selector: string, value: string, mergeKey?: string) => void;
+}
+
+// The inputs show the modifications of the editor store, so that they keep their values when the panel rerenders
+export const FieldInput: React.FC<FieldInputProps> = ({ preview, field, overflows, peers, onChange }) => {
+  const { state, dispatch } = useEditor();
+  const modifications = state.modifications;
+
+  const elementName = field.element.source.name;
+  const focus = () => {
+    dispatch({ type: 'select', elementName });
+    return ensureElementVisibility(preview, elementName, 1.5);
+  };
+
+  const peerNames = peers && peers.length > 0 && (
+    <PeerNames>
+      {peers.map((peer) => (
+        <span key={peer.id} style={{ color: peer.color }}>
+          {peer.name}
+        </span>
+      ))}
+    </PeerNames>
+  );
+
+  if (field.type === 'text') {
+    // For a full list of text properties, refer to: https://creatomate.com/docs/json/elements/text-element
+    const borderRadiusSelector = `${field.selector}.background_border_radius`;
+    const value: string = modifications[field.selector] ?? '';
+
+    return (
+      <Component data-element-name={elementName}>
+        <FieldLabel>
+          {field.label}
+          {peerNames}
+          <CharacterCount style={{ color: field.maxLength && value.length > field.maxLength ? '#e74c3c' : undefined }}>
+            {field.maxLength ? `${value.length}/${field.maxLength}` : value.length}
+          </CharacterCount>
+        </FieldLabel>
+        <TextInput
+          placeholder={field.placeholder}
+          value={value}
+          maxLength={field.maxLength}
+          style={{ borderColor: overflows ? '#e67e22' : peers?.[0]?.color }}
+          onFocus={focus}
+          onChange={(e) => onChange(field.selector, e.target.value, field.selector)}
+        />
+        {overflows && <Warning>This text may not fit in its text box. Try a shorter text.</Warning>}
+        {field.element.source.background_color && (
+          <SelectInput
+            value={modifications[borderRadiusSelector] === '50%' ? 'rounded-text' : 'block-text'}
+            onFocus={focus}
+            onChange={(e) => onChange(borderRadiusSelector, e.target.value === 'rounded-text' ? '50%' : '0%')}
+          >
+            <option value="block-text">Block Text</option>
+            <option value="rounded-text">Rounded Text</option>
+          </SelectInput>
+        )}
+      </Component>
+    );
+  }
+
+  if (field.type === 'image' || field.type === 'video') {
+    return (
+      <Component data-element-name={elementName}>
+        <FieldLabel>
+          {field.label}
+          {peerNames}
+        </FieldLabel>
+        <MediaLibrary
+          preview={preview}
+          type={field.type}
+          value={modifications[field.selector]}
+          onSelect={async (url) => {
+            await focus();
+            onChange(field.selector, url);
+          }}
+        />
+      </Component>
+    );
+  }
+
+  return (
+    <Component data-element-name={elementName}>
+      <FieldLabel>
+        {field.label}
+        {peerNames}
+      </FieldLabel>
+      <ColorInput
+        value={toHexColor(modifications[field.selector] ?? field.element.source.fill_color)}
+        onFocus={focus}
+        onChange={(e) => onChange(field.selector, e.target.value, field.selector)}
+      />
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  margin-top: 15px;
+
+  &:first-child {
+    margin-top: 0;
+  }
+`;
+
+const FieldLabel = styled.div`
+  display: flex;
+  font-size: 14px;
+  color: #4d5966;
+`;
+
+const PeerNames = styled.span`
+  display: flex;
+  gap: 5px;
+  margin-left: 10px;
+  font-weight: 600;
+`;
+
+const CharacterCount = styled.span`
+  margin-left: auto;
+  color: #8c99a6;
+`;
+
+const Warning = styled.div`
+  margin-bottom: 5px;
+  font-size: 14px;
+  color: #e67e22;
+`;
+
+// The native color picker only supports colors in the #rrggbb format
+const toHexColor = (color?: string) => {
+  if (typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color)) {
+    return color;
+  }
+
+  const match = typeof color === 'string' ? color.match(/^rgba?\((\d+),\s*(\d+),\s*(\d+)/i) : null;
+  if (match) {
+    return `#${match
+      .slice(1, 4)
+      .map((channel) => Number(channel).toString(16).padStart(2, '0'))
+      .join('')}`;
+  }
+
+  return '#000000';
+};
@@ -0,0 +1,14 @@
+import React from 'react';
+import styled from 'styled-components';
+
+export const Group = styled.div`
+  margin: 20px 0;
+  padding: 20px;
+  background: #f5f7f8;
+  border-radius: 5px;
+`;
+
+export const GroupTitle = styled.div`
+  margin-bottom: 15px;
+  font-weight: 600;
+`;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { useRouter } from 'next/router';
+import { login } from '../utility/authApi';
+import { Button } from './Button';
+
+export const LoginForm: React.FC = () => {
+  const router = useRouter();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  return (
+    <Component
+      onSubmit={async (e) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(undefined);
+
+        try {
+          await login(username, password);
+
+          router.push(getRedirectPath(router.query.next));
+        } catch (error) {
+          setError((error as Error).message);
+          setIsSubmitting(false);
+        }
+      }}
+    >
+      <h1>Sign in</h1>
+      <Input
+        placeholder="Username"
+        autoComplete="username"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+      />
+      <Input
+        placeholder="Password"
+        type="password"
+        autoComplete="current-password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+      />
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+      <Button type="submit" disabled={isSubmitting} style={{ width: '100%' }}>
+        {isSubmitting ? 'Signing in...' : 'Sign in'}
+      </Button>
+    </Component>
+  );
+};
+
+const Component = styled.form`
+  margin: 100px auto;
+  padding: 30px;
+  max-width: 360px;
+  background: #fff;
+  box-shadow: rgba(0, 0, 0, 0.1) 0 6px 15px 0;
+  border-radius: 15px;
+
+  h1 {
+    margin: 0 0 20px 0;
+    font-size: 24px;
+  }
+`;
+
+const Input = styled.input`
+  display: block;
+  margin: 0 0 10px 0;
+  padding: 10px 15px;
+  width: 100%;
+  border: 1px solid #b3bfcc;
+  border-radius: 5px;
+  outline: none;
+
+  &:focus {
+    background: #e9f4fc;
+    border-color: #005aff;
+  }
+`;
+
+const ErrorMessage = styled.div`
+  margin-bottom: 10px;
+  font-size: 14px;
+  color: #e74c3c;
+`;
+
+// Only redirect to paths within this app, as '//example.com' or '/\example.com' would lead to another site
+const getRedirectPath = (next: unknown) => {
+  if (typeof next !== 'string' || !next.startsWith('/')) {
+    return '/';
+  }
+
+  const url = new URL(next, window.location.origin);
+  return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/';
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { PreviewAdapter } from '../utility/previewAdapter';
+import {
+  addRecentAsset,
+  getRecentAssets,
+  listUploads,
+  MediaAsset,
+  MediaType,
+  stockAssets,
+  uploadFile,
+} from '../utility/mediaLibrary';
+import { ImageOption } from './ImageOption';
+import { useNotifications } from './Notifications';
+
+interface MediaLibraryProps {
+  preview: PreviewAdapter;
+  type: MediaType;
+  // The URL of the asset that is currently selected
+  value?: string;
+  onSelect: (url: string) => void;
+}
+
+export const MediaLibrary: React.FC<MediaLibraryProps> = (props) => {
+  const { notifyError } = useNotifications();
+  const [uploadedAssets, setUploadedAssets] = useState<MediaAsset[]>([]);
+  const [recentAssets, setRecentAssets] = useState<MediaAsset[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setRecentAssets(getRecentAssets());
+    listUploads()
+      .then((uploads) => setUploadedAssets(uploads))
+      .catch(() => undefined);
+  }, []);
+
+  const select = (asset: MediaAsset) => {
+    addRecentAsset(asset);
+    setRecentAssets(getRecentAssets());
+    props.onSelect(asset.url);
+  };
+
+  const upload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const upload = await uploadFile(file);
+
+      // Cache the file in the preview, so that it can be shown right away
+      await props.preview.cacheAsset(upload.url, file);
+
+      setUploadedAssets([upload, ...uploadedAssets]);
+      select(upload);
+    } catch (error) {
+      notifyError(error, { context: 'The file could not be uploaded', retry: () => upload(file) });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Recently used assets first, followed by the uploads and the stock assets
+  const assets = [...recentAssets, ...uploadedAssets, ...stockAssets]
+    .filter((asset) => asset.type === props.type)
+    .filter((asset, i, assets) => assets.findIndex((otherAsset) => otherAsset.url === asset.url) === i);
+
+  return (
+    <Component>
+      <UploadTile onClick={() => !isUploading && fileInputRef.current?.click()}>
+        {isUploading ? 'Uploading...' : '+ Upload'}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={props.type === 'image' ? 'image/*' : 'video/*'}
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) {
+              upload(file);
+            }
+          }}
+        />
+      </UploadTile>
+      {assets.map((asset) =>
+        asset.type === 'image' ? (
+          <Tile
+            key={asset.url}
+            url={asset.url}
+            style={asset.url === props.value ? selectedStyle : undefined}
+            onClick={() => select(asset)}
+          />
+        ) : (
+          <VideoTile
+            key={asset.url}
+            src={asset.url}
+            muted
+            preload="metadata"
+            style={asset.url === props.value ? selectedStyle : undefined}
+            onClick={() => select(asset)}
+          />
+        ),
+      )}
+    </Component>
+  );
+};
+
+const selectedStyle = { boxShadow: '0 0 0 3px #0065eb' };
+
+const Component = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  margin: 10px -5px 0 -5px;
+`;
+
+const Tile = styled(ImageOption)`
+  margin: 5px;
+`;
+
+const VideoTile = styled.video`
+  margin: 5px;
+  width: 65px;
+  height: 65px;
+  border-radius: 5px;
+  object-fit: cover;
+  background: #000;
+  cursor: pointer;
+`;
+
+const UploadTile = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  margin: 5px;
+  width: 65px;
+  height: 65px;
+  border: 1px dashed #b3bfcc;
+  border-radius: 5px;
+  font-size: 12px;
+  text-align: center;
+  color: #4d5966;
+  cursor: pointer;
+`;
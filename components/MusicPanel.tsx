@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { PreviewAdapter } from '../utility/previewAdapter';
+import musicLibrary from '../config/musicLibrary.json';
+import { BackgroundMusic, defaultMusicSettings } from '../utility/backgroundMusic';
+import { listUploads, MediaAsset, uploadFile } from '../utility/mediaLibrary';
+import { Group, GroupTitle } from './Group';
+import { SelectInput } from './SelectInput';
+import { DecimalInput } from './DecimalInput';
+import { useNotifications } from './Notifications';
+
+interface MusicPanelProps {
+  preview: PreviewAdapter;
+  // The music of the video, or undefined when there is none
+  value?: BackgroundMusic;
+  // Typing in a number input is passed with a merge key, so that it's combined into one undo step
+  onChange: (value: BackgroundMusic | undefined, mergeKey?: string) => void;
+}
+
+export const MusicPanel: React.FC<MusicPanelProps> = (props) => {
+  const { notifyError } = useNotifications();
+  const [uploads, setUploads] = useState<(MediaAsset & { fileName: string })[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listUploads()
+      .then((uploads) => setUploads(uploads.filter((upload) => upload.type === 'audio')))
+      .catch(() => undefined);
+  }, []);
+
+  const tracks = [
+    ...musicLibrary.map((track) => ({ name: track.name, url: track.url })),
+    ...uploads.map((upload) => ({ name: upload.fileName, url: upload.url })),
+  ];
+
+  const music = props.value;
+  const selectTrack = (url: string) => props.onChange(url ? { ...defaultMusicSettings, ...music, url } : undefined);
+
+  const upload = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const upload = await uploadFile(file);
+      if (upload.type !== 'audio') {
+        throw new Error('The file is not an audio file.');
+      }
+
+      // Cache the file in the preview, so that it can be played right away
+      await props.preview.cacheAsset(upload.url, file);
+
+      setUploads([upload, ...uploads]);
+      selectTrack(upload.url);
+    } catch (error) {
+      notifyError(error, { context: 'The file could not be uploaded', retry: () => upload(file) });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Group>
+      <GroupTitle>Background Music</GroupTitle>
+      <Row>
+        <SelectInput value={music?.url ?? ''} onChange={(e) => selectTrack(e.target.value)}>
+          <option value="">No Music</option>
+          {music && !tracks.some((track) => track.url === music.url) && <option value={music.url}>Custom Track</option>}
+          {tracks.map((track) => (
+            <option key={track.url} value={track.url}>
+              {track.name}
+            </option>
+          ))}
+        </SelectInput>
+        <UploadButton disabled={isUploading} onClick={() => fileInputRef.current?.click()}>
+          {isUploading ? 'Uploading...' : 'Upload'}
+        </UploadButton>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) {
+              upload(file);
+            }
+          }}
+        />
+      </Row>
+
+      {music && (
+        <Row>
+          <div>
+            <Label>Start at (s)</Label>
+            <DecimalInput
+              value={music.trimStart}
+              min={0}
+              step={0.5}
+              onChange={(trimStart) => props.onChange({ ...music, trimStart }, 'trimStart')}
+            />
+          </div>
+          <div>
+            <Label>Volume (%)</Label>
+            <DecimalInput
+              value={music.volume}
+              min={0}
+              max={100}
+              step={5}
+              onChange={(volume) => props.onChange({ ...music, volume }, 'volume')}
+            />
+          </div>
+          <div>
+            <Label>Fade out (s)</Label>
+            <DecimalInput
+              value={music.fadeOut}
+              min={0}
+              step={0.5}
+              onChange={(fadeOut) => props.onChange({ ...music, fadeOut }, 'fadeOut')}
+            />
+          </div>
+        </Row>
+      )}
+    </Group>
+  );
+};
+
+const Row = styled.div`
+  display: flex;
+  align-items: flex-end;
+  gap: 10px;
+
+  > div {
+    flex: 1;
+    min-width: 0;
+  }
+`;
+
+const Label = styled.div`
+  margin-top: 10px;
+  font-size: 14px;
+  color: #4d5966;
+`;
+
+const UploadButton = styled.button`
+  flex-shrink: 0;
+  margin: 5px 0;
+  padding: 10px 15px;
+  border: 1px solid #b3bfcc;
+  border-radius: 5px;
+  background: #fff;
+  font-size: 14px;
+  cursor: pointer;
+`;
@@ -0,0 +1,213 @@
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import styled from 'styled-components';
+import Link from 'next/link';
+import { ApiError, isRetryable } from '../utility/apiErrors';
+
+export interface Notification {
+  type: 'error' | 'success' | 'info';
+  message: string;
+  // Additional lines, such as the problems that prevent a video from being rendered
+  details?: string[];
+  // A link or button that helps resolve the problem, such as signing in
+  action?: { label: string; href?: string; onClick?: () => void };
+  // Shows a Retry button, which dismisses the notification and calls this function
+  retry?: () => unknown;
+}
+
+interface NotificationOptions {
+  // Describes what failed, e.g. 'The project could not be saved', which is shown before the error message
+  context?: string;
+  retry?: () => unknown;
+}
+
+interface NotificationContextValue {
+  notify: (notification: Notification) => void;
+  // Shows an error thrown by one of the API clients in utility/, with a Retry button when trying again may help
+  notifyError: (error: unknown, options?: NotificationOptions) => void;
+}
+
+// How long success and info notifications are shown, in milliseconds, while errors are shown until they're closed
+const dismissDelay = 5000;
+
+const NotificationContext = createContext<NotificationContextValue | undefined>(undefined);
+
+export function useNotifications() {
+  const value = useContext(NotificationContext);
+  if (!value) {
+    throw new Error('useNotifications must be used within a NotificationProvider.');
+  }
+
+  return value;
+}
+
+// Shows the notifications in the bottom right corner of the page, wrap the page in pages/_app.tsx with this component
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = (props) => {
+  const [notifications, setNotifications] = useState<(Notification & { id: number })[]>([]);
+  const nextIdRef = useRef(1);
+
+  const dismiss = useCallback((id: number) => {
+    setNotifications((notifications) => notifications.filter((notification) => notification.id !== id));
+  }, []);
+
+  const notify = useCallback(
+    (notification: Notification) => {
+      const id = nextIdRef.current++;
+      setNotifications((notifications) => [...notifications, { ...notification, id }]);
+
+      if (notification.type !== 'error') {
+        setTimeout(() => dismiss(id), dismissDelay);
+      }
+    },
+    [dismiss],
+  );
+
+  const notifyError = useCallback(
+    (error: unknown, options?: NotificationOptions) => {
+      const message = getErrorMessage(error);
+      notify({
+        type: 'error',
+        message: options?.context ? `${options.context}: ${message}` : message,
+        details: error instanceof ApiError && Array.isArray(error.details?.errors) ? error.details.errors : undefined,
+        action:
+          error instanceof ApiError && error.code === 'unauthorized'
+            ? {
+                label: 'Sign in',
+                href: `/login?next=${encodeURIComponent(window.location.pathname + window.location.search)}`,
+              }
+            : undefined,
+        retry: options?.retry && isRetryable(error) ? options.retry : undefined,
+      });
+    },
+    [notify],
+  );
+
+  const value = useMemo(() => ({ notify, notifyError }), [notify, notifyError]);
+
+  return (
+    <NotificationContext.Provider value={value}>
+      {props.children}
+      <Stack>
+        {notifications.map((notification) => (
+          <Item
+            key={notification.id}
+            role={notification.type === 'error' ? 'alert' : 'status'}
+            style={{ borderLeftColor: colors[notification.type] }}
+          >
+            {notification.message}
+            {notification.details && (
+              <Details>
+                {notification.details.map((detail, i) => (
+                  <li key={i}>{detail}</li>
+                ))}
+              </Details>
+            )}
+            {(notification.action || notification.retry) && (
+              <Actions>
+                {notification.retry && (
+                  <ActionButton
+                    onClick={() => {
+                      dismiss(notification.id);
+                      notification.retry?.();
+                    }}
+                  >
+                    Retry
+                  </ActionButton>
+                )}
+                {notification.action?.href && <Link href={notification.action.href}>{notification.action.label}</Link>}
+                {notification.action && !notification.action.href && (
+                  <ActionButton
+                    onClick={() => {
+                      dismiss(notification.id);
+                      notification.action?.onClick?.();
+                    }}
+                  >
+                    {notification.action.label}
+                  </ActionButton>
+                )}
+              </Actions>
+            )}
+            <CloseButton onClick={() => dismiss(notification.id)} title="Close">
+              ×
+            </CloseButton>
+          </Item>
+        ))}
+      </Stack>
+    </NotificationContext.Provider>
+  );
+};
+
+const Stack = styled.div`
+  position: fixed;
+  right: 20px;
+  bottom: 20px;
+  z-index: 100;
+  display: flex;
+  flex-direction: column;
+  gap: 10px;
+  width: 340px;
+  max-width: calc(100vw - 40px);
+`;
+
+const colors = { error: '#e74c3c', success: '#2ecc71', info: '#0065eb' };
+
+const Item = styled.div`
+  position: relative;
+  padding: 15px 35px 15px 15px;
+  background: #fff;
+  box-shadow: rgba(0, 0, 0, 0.15) 0 6px 15px 0;
+  border-left: 4px solid;
+  border-radius: 5px;
+  font-size: 14px;
+  white-space: pre-line;
+  overflow-wrap: anywhere;
+`;
+
+const Details = styled.ul`
+  margin: 5px 0 0 0;
+  padding-left: 20px;
+  color: #4d5966;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  gap: 15px;
+  margin-top: 10px;
+
+  a {
+    color: #0065eb;
+    font-weight: 600;
+    text-decoration: none;
+  }
+`;
+
+const ActionButton = styled.button`
+  padding: 0;
+  border: none;
+  background: none;
+  color: #0065eb;
+  font-size: 14px;
+  font-weight: 600;
+  cursor: pointer;
+`;
+
+const CloseButton = styled.button`
+  position: absolute;
+  top: 10px;
+  right: 10px;
+  padding: 0;
+  border: none;
+  background: none;
+  font-size: 18px;
+  line-height: 1;
+  color: #8c99a6;
+  cursor: pointer;
+`;
+
+const getErrorMessage = (error: unknown) => {
+  // Fetch throws a TypeError when the server can't be reached
+  if (error instanceof TypeError) {
+    return 'The server could not be reached. Please check your connection.';
+  }
+
+  return error instanceof Error ? error.message : String(error);
+};
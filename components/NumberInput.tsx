@@ -0,0 +1,18 @@
+import React from 'react';
+import styled from 'styled-components';
+
+export const NumberInput = styled.input.attrs({ type: 'number' })`
+  flex: 1;
+  min-width: 0;
+  width: 100%;
+  margin: 5px 0;
+  padding: 10px 15px;
+  border: 1px solid #b3bfcc;
+  border-radius: 5px;
+  outline: none;
+
+  &:focus {
+    background: #e9f4fc;
+    border-color: #005aff;
+  }
+`;
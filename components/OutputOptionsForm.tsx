@@ -0,0 +1,186 @@
+import React, { Fragment } from 'react';
+import styled from 'styled-components';
+import {
+  frameRates,
+  isSnapshotFormat,
+  maxDimension,
+  OutputFormat,
+  OutputOptions,
+  OutputQuality,
+  scales,
+} from '../utility/outputOptions';
+import { aspectRatios } from '../utility/aspectRatios';
+import { SelectInput } from './SelectInput';
+import { NumberInput } from './NumberInput';
+
+interface OutputOptionsFormProps {
+  value: OutputOptions;
+  onChange: (value: OutputOptions) => void;
+  // The aspect ratios that are rendered at once, each as a separate render
+  aspectRatioIds: string[];
+  onAspectRatioIdsChange: (aspectRatioIds: string[]) => void;
+}
+
+export const OutputOptionsForm: React.FC<OutputOptionsFormProps> = ({
+  value,
+  onChange,
+  aspectRatioIds,
+  onAspectRatioIdsChange,
+}) => {
+  const sizeMode = value.width !== undefined || value.height !== undefined ? 'dimensions' : 'scale';
+  const formatFrameRates = isSnapshotFormat(value.format) ? undefined : frameRates[value.format as 'mp4' | 'gif'];
+
+  return (
+    <Component>
+      <Label>Format</Label>
+      <SelectInput
+        value={value.format}
+        onChange={(e) => {
+          const format = e.target.value as OutputFormat;
+          // The frame rate and snapshot time only apply to some formats
+          onChange({ ...value, format, frameRate: undefined, snapshotTime: undefined });
+        }}
+      >
+        <option value="mp4">MP4 video</option>
+        <option value="gif">GIF animation</option>
+        <option value="jpg">JPG snapshot of the current frame</option>
+        <option value="png">PNG snapshot of the current frame</option>
+      </SelectInput>
+
+      <Label>Aspect ratios</Label>
+      <Checkboxes>
+        {aspectRatios.map((aspectRatio) => (
+          <label key={aspectRatio.id} title={aspectRatio.label}>
+            <input
+              type="checkbox"
+              checked={aspectRatioIds.includes(aspectRatio.id)}
+              onChange={(e) =>
+                onAspectRatioIdsChange(
+                  aspectRatios
+                    .map(({ id }) => id)
+                    .filter((id) => (id === aspectRatio.id ? e.target.checked : aspectRatioIds.includes(id))),
+                )
+              }
+            />
+            {aspectRatio.id}
+          </label>
+        ))}
+      </Checkboxes>
+      {aspectRatioIds.length === 0 && <Hint>Renders the aspect ratio of the preview.</Hint>}
+
+      <Label>Size</Label>
+      <SelectInput
+        value={sizeMode === 'dimensions' ? 'dimensions' : String(value.scale ?? 1)}
+        onChange={(e) => {
+          if (e.target.value === 'dimensions') {
+            onChange({ ...value, scale: undefined, width: 1920, height: 1080 });
+          } else {
+            const scale = Number(e.target.value);
+            onChange({ ...value, scale: scale === 1 ? undefined : scale, width: undefined, height: undefined });
+          }
+        }}
+      >
+        {scales.map((scale) => (
+          <option key={scale} value={String(scale)}>
+            {scale === 1 ? 'Original size' : `${scale * 100}%`}
+          </option>
+        ))}
+        <option value="dimensions">Fit in width and height</option>
+      </SelectInput>
+      {sizeMode === 'dimensions' && (
+        <Dimensions>
+          <NumberInput
+            min={1}
+            max={maxDimension}
+            value={value.width ?? ''}
+            onChange={(e) => onChange({ ...value, width: parseDimension(e.target.value) })}
+          />
+          ×
+          <NumberInput
+            min={1}
+            max={maxDimension}
+            value={value.height ?? ''}
+            onChange={(e) => onChange({ ...value, height: parseDimension(e.target.value) })}
+          />
+        </Dimensions>
+      )}
+
+      {formatFrameRates && (
+        <Fragment>
+          <Label>Frame rate</Label>
+          <SelectInput
+            value={value.frameRate ?? ''}
+            onChange={(e) => onChange({ ...value, frameRate: e.target.value ? Number(e.target.value) : undefined })}
+          >
+            <option value="">Same as template</option>
+            {formatFrameRates.map((frameRate) => (
+              <option key={frameRate} value={frameRate}>
+                {frameRate} fps
+              </option>
+            ))}
+          </SelectInput>
+
+          <Label>Quality</Label>
+          <SelectInput
+            value={value.quality}
+            onChange={(e) => onChange({ ...value, quality: e.target.value as OutputQuality })}
+          >
+            <option value="low">Low (smaller file)</option>
+            <option value="medium">Medium</option>
+            <option value="high">High (larger file)</option>
+          </SelectInput>
+        </Fragment>
+      )}
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  position: absolute;
+  top: calc(100% + 5px);
+  right: 0;
+  z-index: 1;
+  padding: 15px;
+  width: 300px;
+  background: #fff;
+  box-shadow: rgba(0, 0, 0, 0.15) 0 6px 15px 0;
+  border-radius: 5px;
+`;
+
+const Label = styled.div`
+  margin-top: 10px;
+  font-size: 14px;
+  color: #4d5966;
+
+  &:first-child {
+    margin-top: 0;
+  }
+`;
+
+const Checkboxes = styled.div`
+  display: flex;
+  gap: 15px;
+  margin: 5px 0;
+  font-size: 14px;
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: 5px;
+    cursor: pointer;
+  }
+`;
+
+const Hint = styled.div`
+  font-size: 13px;
+  color: #8c99a6;
+`;
+
+const Dimensions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  font-size: 14px;
+`;
+
+const parseDimension = (value: string) => (value ? Math.round(Number(value)) : undefined);
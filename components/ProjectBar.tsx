@@ -0,0 +1,78 @@
+import React from 'react';
+import styled from 'styled-components';
+import Link from 'next/link';
+import { AutosaveStatus } from '../utility/useAutosave';
+
+interface ProjectBarProps {
+  // The title of the project, or undefined when the changes haven't been saved as a project yet
+  title?: string;
+  status: AutosaveStatus;
+  onSave: () => void;
+  onShare: () => void;
+}
+
+export const ProjectBar: React.FC<ProjectBarProps> = (props) => {
+  return (
+    <Component>
+      <Link href="/projects">← Projects</Link>
+      <Title>{props.title ?? 'Untitled'}</Title>
+      {props.title !== undefined ? (
+        <Status style={{ color: props.status === 'error' ? '#e74c3c' : undefined }}>
+          {getStatusLabel(props.status)}
+        </Status>
+      ) : (
+        <SaveButton onClick={props.onSave}>Save project</SaveButton>
+      )}
+      <SaveButton onClick={props.onShare} style={{ marginLeft: 15 }} title="Create a link to a read-only preview">
+        Share
+      </SaveButton>
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  display: flex;
+  align-items: center;
+  margin-bottom: 20px;
+  font-size: 14px;
+
+  a {
+    color: #0065eb;
+    text-decoration: none;
+  }
+`;
+
+const Title = styled.div`
+  flex: 1;
+  margin: 0 15px;
+  font-weight: 600;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const Status = styled.div`
+  color: #8c99a6;
+`;
+
+const SaveButton = styled.button`
+  padding: 0;
+  border: none;
+  background: none;
+  color: #0065eb;
+  font-size: 14px;
+  cursor: pointer;
+`;
+
+const getStatusLabel = (status: AutosaveStatus) => {
+  switch (status) {
+    case 'unsaved':
+      return 'Unsaved changes';
+    case 'saving':
+      return 'Saving...';
+    case 'error':
+      return 'Failed to save';
+    default:
+      return 'Saved';
+  }
+};
@@ -0,0 +1,127 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import Link from 'next/link';
+import { deleteProject, listProjects, ProjectSummary } from '../utility/projectsApi';
+import { Button } from './Button';
+import { useNotifications } from './Notifications';
+
+export const ProjectList: React.FC = () => {
+  const [projects, setProjects] = useState<ProjectSummary[]>();
+
+  const { notifyError } = useNotifications();
+
+  const load = useCallback(() => {
+    listProjects()
+      .then(setProjects)
+      .catch((error) => notifyError(error, { context: 'The projects could not be loaded', retry: load }));
+  }, [notifyError]);
+
+  useEffect(load, [load]);
+
+  return (
+    <Component>
+      <Header>
+        <h1>Projects</h1>
+        <HeaderLinks>
+          <Link href="/renders">Renders</Link>
+          <Link href="/templates">
+            <Button>New Project</Button>
+          </Link>
+        </HeaderLinks>
+      </Header>
+
+      {projects?.length === 0 && <Empty>No projects have been saved yet.</Empty>}
+
+      {projects?.map((project) => (
+        <Item key={project.id}>
+          <Link href={{ pathname: '/', query: { project: project.id } }}>
+            <ItemTitle>{project.title}</ItemTitle>
+            <ItemDate>Last edited {new Date(project.updatedAt).toLocaleString()}</ItemDate>
+          </Link>
+          <DeleteButton
+            onClick={async () => {
+              if (window.confirm(`Delete "${project.title}"?`)) {
+                try {
+                  await deleteProject(project.id);
+                  setProjects(projects.filter((otherProject) => otherProject.id !== project.id));
+                } catch (error) {
+                  notifyError(error, { context: 'The project could not be deleted' });
+                }
+              }
+            }}
+          >
+            Delete
+          </DeleteButton>
+        </Item>
+      ))}
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  margin: 50px auto;
+  padding: 0 20px;
+  max-width: 720px;
+`;
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 20px;
+
+  h1 {
+    margin: 0;
+    font-size: 24px;
+  }
+`;
+
+const HeaderLinks = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 20px;
+
+  > a:first-child {
+    color: #0065eb;
+    text-decoration: none;
+  }
+`;
+
+const Empty = styled.div`
+  color: #8c99a6;
+`;
+
+const Item = styled.div`
+  display: flex;
+  align-items: center;
+  margin: 10px 0;
+  padding: 20px;
+  background: #fff;
+  box-shadow: rgba(0, 0, 0, 0.1) 0 6px 15px 0;
+  border-radius: 5px;
+
+  a {
+    flex: 1;
+    color: inherit;
+    text-decoration: none;
+  }
+`;
+
+const ItemTitle = styled.div`
+  font-weight: 600;
+`;
+
+const ItemDate = styled.div`
+  margin-top: 5px;
+  font-size: 14px;
+  color: #8c99a6;
+`;
+
+const DeleteButton = styled.button`
+  padding: 0;
+  border: none;
+  background: none;
+  color: #e74c3c;
+  font-size: 14px;
+  cursor: pointer;
+`;
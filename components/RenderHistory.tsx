@@ -0,0 +1,172 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import styled from 'styled-components';
+import Link from 'next/link';
+import { deleteRender, getDownloadUrl, listRenders, RenderSummary } from '../utility/rendersApi';
+import { isSnapshotFormat } from '../utility/outputOptions';
+import { useNotifications } from './Notifications';
+
+export const RenderHistory: React.FC = () => {
+  const [renders, setRenders] = useState<RenderSummary[]>();
+
+  const { notifyError } = useNotifications();
+
+  const load = useCallback(() => {
+    listRenders()
+      .then(setRenders)
+      .catch((error) => notifyError(error, { context: 'The renders could not be loaded', retry: load }));
+  }, [notifyError]);
+
+  useEffect(load, [load]);
+
+  return (
+    <Component>
+      <Header>
+        <h1>Renders</h1>
+        <Link href="/projects">← Projects</Link>
+      </Header>
+
+      {renders?.length === 0 && <Empty>No videos have been created yet.</Empty>}
+
+      {renders?.map((render) => (
+        <Item key={render.id}>
+          <Thumbnail
+            style={getThumbnailUrl(render) ? { backgroundImage: `url(${getThumbnailUrl(render)})` } : undefined}
+          />
+          <ItemDetails>
+            <ItemTitle>{render.title || render.fileName}</ItemTitle>
+            <ItemDate>
+              {new Date(render.createdAt).toLocaleString()} · {render.outputFormat.toUpperCase()}
+              {render.duration !== undefined && !isSnapshotFormat(render.outputFormat) && ` · ${render.duration}s`}
+              {render.status !== 'succeeded' && ` · ${getStatusLabel(render)}`}
+            </ItemDate>
+          </ItemDetails>
+          <Actions>
+            {render.status === 'succeeded' && <a href={getDownloadUrl(render.id)}>Download</a>}
+            {render.templateId && <Link href={{ pathname: '/', query: { render: render.id } }}>Open in Editor</Link>}
+            <DeleteButton
+              onClick={async () => {
+                if (window.confirm(`Remove "${render.title || render.fileName}" from the history?`)) {
+                  try {
+                    await deleteRender(render.id);
+                    setRenders(renders.filter((otherRender) => otherRender.id !== render.id));
+                  } catch (error) {
+                    notifyError(error, { context: 'The render could not be deleted' });
+                  }
+                }
+              }}
+            >
+              Delete
+            </DeleteButton>
+          </Actions>
+        </Item>
+      ))}
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  margin: 50px auto;
+  padding: 0 20px;
+  max-width: 720px;
+`;
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 20px;
+
+  h1 {
+    margin: 0;
+    font-size: 24px;
+  }
+
+  a {
+    color: #0065eb;
+    text-decoration: none;
+  }
+`;
+
+const Empty = styled.div`
+  color: #8c99a6;
+`;
+
+const Item = styled.div`
+  display: flex;
+  align-items: center;
+  margin: 10px 0;
+  padding: 15px;
+  background: #fff;
+  box-shadow: rgba(0, 0, 0, 0.1) 0 6px 15px 0;
+  border-radius: 5px;
+`;
+
+const Thumbnail = styled.div`
+  flex-shrink: 0;
+  width: 96px;
+  aspect-ratio: 16 / 9;
+  margin-right: 15px;
+  background: #e1e6eb center / cover no-repeat;
+  border-radius: 3px;
+`;
+
+const ItemDetails = styled.div`
+  flex: 1;
+  min-width: 0;
+`;
+
+const ItemTitle = styled.div`
+  font-weight: 600;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const ItemDate = styled.div`
+  margin-top: 5px;
+  font-size: 14px;
+  color: #8c99a6;
+`;
+
+const Actions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 15px;
+  margin-left: 15px;
+  font-size: 14px;
+  white-space: nowrap;
+
+  a {
+    color: #0065eb;
+    text-decoration: none;
+  }
+`;
+
+const DeleteButton = styled.button`
+  padding: 0;
+  border: none;
+  background: none;
+  color: #e74c3c;
+  font-size: 14px;
+  cursor: pointer;
+`;
+
+// Videos are shown by their snapshot, while images and GIFs can be shown as they are
+const getThumbnailUrl = (render: RenderSummary) => {
+  if (render.snapshotUrl) {
+    return render.snapshotUrl;
+  }
+
+  return render.outputFormat !== 'mp4' && render.status === 'succeeded' ? render.url : undefined;
+};
+
+const getStatusLabel = (render: RenderSummary) => {
+  switch (render.status) {
+    case 'failed':
+      return `Failed: ${render.errorMessage}`;
+    case 'rendering':
+      return 'Rendering...';
+    default:
+      return 'Queued...';
+  }
+};
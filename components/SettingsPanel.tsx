@@ -1,254 +1,514 @@
-import React, { Fragment, useMemo, useRef } from 'react';
+import React, { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import styled from 'styled-components';
-import { Preview, PreviewState } from '@creatomate/preview';
-import { deepClone } from '../utility/deepClone';
-import { TextInput } from './TextInput';
+import { ElementState, PreviewState } from '@creatomate/preview';
+import { PreviewAdapter } from '../utility/previewAdapter';
+import { useEditor } from '../utility/editorStore';
+import { useEditHistory } from '../utility/useEditHistory';
+import { useCollaboration } from '../utility/useCollaboration';
+import { Peer } from '../utility/collaboration';
+import { ensureElementVisibility } from '../utility/ensureElementVisibility';
+import { getFieldGroups, getTemplateConfig, getTransitionAnimation } from '../utility/templateFields';
+import { clearDraft, getDraftKey, saveDraft } from '../utility/drafts';
+import { createProject, ProjectSummary, updateProject } from '../utility/projectsApi';
+import { createShare } from '../utility/sharesApi';
+import { listTemplates } from '../utility/templateRegistry';
+import { getOverflowingTexts } from '../utility/textFit';
+import { useAutosave } from '../utility/useAutosave';
+import { duplicateSlide, insertSlide, isSlide, moveSlide, removeSlide, SlideEdit } from '../utility/slides';
+import { getSlideSettings, SlideSettings, updateSlideSettings } from '../utility/slideSettings';
+import {
+  alignBackgroundMusic,
+  BackgroundMusic,
+  getBackgroundMusic,
+  getContentDuration,
+  setBackgroundMusic,
+} from '../utility/backgroundMusic';
+import { Cue, getSubtitles, setSubtitles, SubtitleStyle } from '../utility/subtitles';
+import { AspectRatio, convertAspectRatio, findAspectRatio } from '../utility/aspectRatios';
+import { applyBrandKit, applyTextStyle, BrandKitStyle, defaultBrandKitStyle } from '../utility/brandKit';
 import { SelectInput } from './SelectInput';
-import { ImageOption } from './ImageOption';
+import { FieldInput } from './FieldInput';
+import { useNotifications } from './Notifications';
+import { Group, GroupTitle } from './Group';
+import { SlideGroup } from './SlideGroup';
+import { SlideSettingsForm } from './SlideSettingsForm';
+import { SlideFilmstrip } from './SlideFilmstrip';
 import { Button } from './Button';
 import { CreateButton } from './CreateButton';
+import { ProjectBar } from './ProjectBar';
+import { BatchPanel } from './BatchPanel';
+import { AppliedBrandKit, BrandKitPanel } from './BrandKitPanel';
+import { AspectRatioSwitcher } from './AspectRatioSwitcher';
+import { MusicPanel } from './MusicPanel';
+import { CaptionsPanel } from './CaptionsPanel';
+import { CollaboratorList } from './CollaboratorList';
 
 interface SettingsPanelProps {
-  preview: Preview;
+  preview: PreviewAdapter;
+  templateId: string;
   currentState?: PreviewState;
+  // The project that is being edited, or undefined when the changes haven't been saved as a project yet
+  project?: ProjectSummary;
+  // Returns the current playback time of the preview
+  getCurrentTime: () => number;
+  onProjectChange: (project: ProjectSummary) => void;
+  onTemplateChange: (templateId: string) => void;
 }
 
 export const SettingsPanel: React.FC<SettingsPanelProps> = (props) => {
-  // In this variable, we store the modifications that are applied to the template
-  // Refer to: https://creatomate.com/docs/api/rest-api/the-modifications-object
-  const modificationsRef = useRef<Record<string, any>>({});
+  // The video source and the modifications that are applied to it, which the store keeps in sync with the preview
+  const editor = useEditor();
+  const { dispatch, getState } = editor;
 
-  // Get the slide elements in the template by name (starting with 'Slide-')
-  const slideElements = useMemo(() => {
-    return props.currentState?.elements.filter((element) => element.source.name?.startsWith('Slide-'));
-  }, [props.currentState]);
+  // Undo and redo history of both the modifications and the video source
+  const history = useEditHistory(editor);
 
-  return (
-    <div>
-      <CreateButton preview={props.preview} />
-
-      <Group>
-        <GroupTitle>Intro</GroupTitle>
-        <TextInput
-          placeholder="Lorem ipsum dolor sit amet"
-          onFocus={() => ensureElementVisibility(props.preview, 'Title', 1.5)}
-          onChange={(e) => setPropertyValue(props.preview, 'Title', e.target.value, modificationsRef.current)}
-        />
-        <TextInput
-          placeholder="Enter your tagline here"
-          onFocus={() => ensureElementVisibility(props.preview, 'Tagline', 1.5)}
-          onChange={(e) => setPropertyValue(props.preview, 'Tagline', e.target.value, modificationsRef.current)}
-        />
-        <TextInput
-          placeholder="A second and longer text here ✌️"
-          onFocus={() => ensureElementVisibility(props.preview, 'Start-Text', 1.5)}
-          onChange={(e) => setPropertyValue(props.preview, 'Start-Text', e.target.value, modificationsRef.current)}
-        />
-      </Group>
-
-      <Group>
-        <GroupTitle>Outro</GroupTitle>
-        <TextInput
-          placeholder="Your Call To Action Here"
-          onFocus={() => ensureElementVisibility(props.preview, 'Final-Text', 1.5)}
-          onChange={(e) => setPropertyValue(props.preview, 'Final-Text', e.target.value, modificationsRef.current)}
-        />
-      </Group>
+  const { notify, notifyError } = useNotifications();
 
-      {slideElements?.map((slideElement, i) => {
-        const transitionAnimation = slideElement.source.animations.find((animation: any) => animation.transition);
+  // Once saved, the project can be edited by several people at the same time
+  const collaboration = useCollaboration(props.project?.id, editor, history.rebase);
 
-        const nestedElements = props.preview.getElements(slideElement);
-        const textElement = nestedElements.find((element) => element.source.name?.endsWith('-Text'));
-        const imageElement = nestedElements.find((element) => element.source.name?.endsWith('-Image'));
+  // Shows the other person's field and jumps to the time at which its element is visible
+  const followPeer = (peer: Peer) => {
+    if (peer.elementName) {
+      document
+        .querySelector(`#panel [data-element-name="${CSS.escape(peer.elementName)}"]`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      ensureElementVisibility(props.preview, peer.elementName, 1.5);
+    }
+  };
 
-        return (
-          <Group key={i}>
-            <GroupTitle>Slide {i + 1}</GroupTitle>
-            {textElement && (
-              <Fragment>
-                <TextInput
-                  placeholder={textElement.source.text}
-                  onFocus={() => ensureElementVisibility(props.preview, textElement.source.name, 1.5)}
-                  onChange={(e) =>
-                    setPropertyValue(props.preview, textElement.source.name, e.target.value, modificationsRef.current)
-                  }
-                />
-                <SelectInput
-                  onFocus={() => ensureElementVisibility(props.preview, textElement.source.name, 1.5)}
-                  onChange={(e) =>
-                    setTextStyle(props.preview, textElement.source.name, e.target.value, modificationsRef.current)
-                  }
-                >
-                  <option value="block-text">Block Text</option>
-                  <option value="rounded-text">Rounded Text</option>
-                </SelectInput>
-                <SelectInput
-                  value={transitionAnimation?.type}
-                  onFocus={() => ensureElementVisibility(props.preview, slideElement.source.name, 0.5)}
-                  onChange={(e) => setSlideTransition(props.preview, slideElement.source.name, e.target.value)}
-                >
-                  <option value="fade">Fade Transition</option>
-                  <option value="circular-wipe">Circle Wipe Transition</option>
-                </SelectInput>
-                {imageElement && (
-                  <ImageOptions>
-                    {[
-                      'https://creatomate-static.s3.amazonaws.com/demo/harshil-gudka-77zGnfU_SFU-unsplash.jpg',
-                      'https://creatomate-static.s3.amazonaws.com/demo/samuel-ferrara-1527pjeb6jg-unsplash.jpg',
-                      'https://creatomate-static.s3.amazonaws.com/demo/simon-berger-UqCnDyc_3vA-unsplash.jpg',
-                    ].map((url) => (
-                      <ImageOption
-                        key={url}
-                        url={url}
-                        onClick={async () => {
-                          await ensureElementVisibility(props.preview, imageElement.source.name, 1.5);
-                          await setPropertyValue(
-                            props.preview,
-                            imageElement.source.name,
-                            url,
-                            modificationsRef.current,
-                          );
-                        }}
-                      />
-                    ))}
-                  </ImageOptions>
-                )}
-              </Fragment>
-            )}
-          </Group>
-        );
-      })}
+  // The brand kit that is applied to the video, which newly added slides are styled with as well
+  const [brandKit, setBrandKit] = useState<AppliedBrandKit>();
 
-      <Button onClick={() => addSlide(props.preview)} style={{ width: '100%' }}>
-        Add Slide
-      </Button>
-    </div>
+  // Keep a local draft of every change, so that it can be recovered after an unexpected reload
+  const draftKey = getDraftKey(props.templateId, props.project?.id);
+  useAutosave(
+    () =>
+      saveDraft(draftKey, {
+        templateId: props.templateId,
+        source: getState().source,
+        modifications: getState().modifications,
+        savedAt: new Date().toISOString(),
+      }),
+    history.revision,
+    500,
   );
-};
 
-const Group = styled.div`
-  margin: 20px 0;
-  padding: 20px;
-  background: #f5f7f8;
-  border-radius: 5px;
-`;
+  // Save the project in the background once the user has stopped making changes
+  const project = props.project;
+  const saveStatus = useAutosave(
+    project &&
+      (async () => {
+        await updateProject(project.id, {
+          source: getState().source,
+          templateId: props.templateId,
+          modifications: getState().modifications,
+          // Leaves the saved brand kit unchanged until the brand kits have been loaded
+          brandKitId: brandKit && (brandKit.id ?? ''),
+        });
+        clearDraft(draftKey);
+      }),
+    history.revision,
+    2000,
+  );
 
-const GroupTitle = styled.div`
-  margin-bottom: 15px;
-  font-weight: 600;
-`;
+  const saveProject = async () => {
+    const title = window.prompt('Project title', 'Untitled project');
+    if (title === null) {
+      return;
+    }
 
-const ImageOptions = styled.div`
-  display: flex;
-  margin: 20px -10px 0 -10px;
-`;
+    try {
+      const project = await createProject({
+        title,
+        templateId: props.templateId,
+        source: getState().source,
+        modifications: getState().modifications,
+        brandKitId: brandKit?.id,
+      });
+      clearDraft(draftKey);
+      props.onProjectChange(project);
+    } catch (error) {
+      notifyError(error, { context: 'The project could not be saved' });
+    }
+  };
 
-// Updates the provided modifications object
-const setPropertyValue = async (
-  preview: Preview,
-  selector: string,
-  value: string,
-  modifications: Record<string, any>,
-) => {
-  if (value.trim()) {
-    // If a non-empty value is passed, update the modifications based on the provided selector
-    modifications[selector] = value;
-  } else {
-    // If an empty value is passed, remove it from the modifications map, restoring its default
-    delete modifications[selector];
-  }
+  // Loads another template, keeping the modifications of the elements that the new template has as well
+  const switchTemplate = async (templateId: string) => {
+    const message = 'Switching templates keeps the texts and media that fit the new template. Other changes are lost.';
+    if (!window.confirm(message)) {
+      return;
+    }
 
-  // Set the template modifications
-  await preview.setModifications(modifications);
-};
+    try {
+      await editor.loadTemplate(templateId);
+    } catch (error) {
+      notifyError(error, { context: 'The template could not be loaded' });
+      return;
+    }
 
-// Sets the text styling properties
-// For a full list of text properties, refer to: https://creatomate.com/docs/json/elements/text-element
-const setTextStyle = async (preview: Preview, selector: string, style: string, modifications: Record<string, any>) => {
-  if (style === 'block-text') {
-    modifications[`${selector}.background_border_radius`] = '0%';
-  } else if (style === 'rounded-text') {
-    modifications[`${selector}.background_border_radius`] = '50%';
-  }
+    // The undo steps refer to the elements of the previous template
+    history.reset();
+    props.onTemplateChange(templateId);
+  };
 
-  await preview.setModifications(modifications);
-};
+  // Creates a short link to a read-only preview of the current state
+  const share = async () => {
+    try {
+      const { url } = await createShare({
+        title: props.project?.title,
+        templateId: props.templateId,
+        source: getState().source,
+        modifications: getState().modifications,
+      });
+      try {
+        await navigator.clipboard.writeText(url);
+        notify({ type: 'success', message: `The link has been copied to the clipboard:\n${url}` });
+      } catch (error) {
+        // Without access to the clipboard, the link is shown so that it can be copied by hand
+        window.prompt('Copy the link to share the video', url);
+      }
+    } catch (error) {
+      notifyError(error, { context: 'The video could not be shared', retry: share });
+    }
+  };
 
-// Jumps to a time position where the provided element is visible
-const ensureElementVisibility = async (preview: Preview, elementName: string, addTime: number) => {
-  // Find element by name
-  const element = preview.getElements().find((element) => element.source.name === elementName);
-  if (element) {
-    // Set playback time
-    await preview.setTime(element.globalTime + addTime);
-  }
-};
+  const templates = useMemo(() => listTemplates(), []);
 
-// Sets the animation of a slide element
-const setSlideTransition = async (preview: Preview, slideName: string, type: string) => {
-  // Make sure to clone the state as it's immutable
-  const mutatedState = deepClone(preview.state);
-
-  // Find element by name
-  const element = preview.getElements(mutatedState).find((element) => element.source.name === slideName);
-  if (element) {
-    // Set the animation property
-    // Refer to: https://creatomate.com/docs/json/elements/common-properties
-    element.source.animations = [
-      {
-        type,
-        duration: 1,
-        transition: true,
-      },
-    ];
+  // Labels, ordering and hidden fields as declared for this template in config/templates.json
+  const templateConfig = useMemo(() => getTemplateConfig(props.templateId), [props.templateId]);
+
+  // Build the form from the elements of the template, grouped by composition
+  const fieldGroups = useMemo(() => {
+    return props.currentState ? getFieldGroups(props.currentState, templateConfig) : [];
+  }, [props.currentState, templateConfig]);
+
+  const subtitles = useMemo(() => props.currentState && getSubtitles(props.currentState), [props.currentState]);
+
+  // The texts that don't fit in their text boxes, which are flagged in the form and before rendering
+  const overflowingTexts = useMemo(
+    () => (props.currentState ? getOverflowingTexts(props.currentState) : []),
+    [props.currentState],
+  );
+  const overflowingNames = new Set(overflowingTexts.map((element) => element.source.name));
+  const overflowingLabels = overflowingTexts.map((element) => {
+    const field = fieldGroups
+      .flatMap((group) => group.fields)
+      .find((field) => field.element.source.name === element.source.name);
+    return field ? field.label : element.source.name;
+  });
+
+  // Slides can only be added to templates that follow the 'Slide-' naming convention
+  const slideNames = fieldGroups
+    .filter((group) => group.composition && isSlide(group.composition.source))
+    .map((group) => group.name);
+
+  const slides = useMemo(
+    () =>
+      fieldGroups
+        .filter((group) => group.composition && isSlide(group.composition.source))
+        .map((group) => group.composition as ElementState),
+    [fieldGroups],
+  );
+
+  // The DOM elements of the slide groups, used to determine where a dragged slide is dropped
+  const slideGroupsRef = useRef(new Map<string, HTMLDivElement>());
+
+  // Seeks to the middle of the slide that was clicked in the filmstrip, and scrolls to its settings
+  const selectSlide = (slide: ElementState) => {
+    dispatch({ type: 'select', elementName: slide.source.name });
+    props.preview.setTime(slide.globalTime + slide.duration / 2);
+    slideGroupsRef.current.get(slide.source.name)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // An empty value removes the modification, restoring the value of the template
+  const changeValue = (selector: string, value: string, mergeKey?: string) => {
+    history.record(mergeKey);
+    dispatch({ type: 'setModification', selector, value });
+  };
+
+  // Applies a structural change to the slides, renaming the modifications along with them
+  // Resolves once the preview shows the change, so that the time can be set to one of the new elements
+  const editSlides = async (edit: (source: Record<string, any>, modifications: Record<string, any>) => SlideEdit) => {
+    history.record();
+    const { source, modifications } = edit(getState().source, getState().modifications);
 
     // Update the video source
     // Refer to: https://creatomate.com/docs/json/introduction
-    await preview.setSource(preview.getSource(mutatedState));
-  }
-};
+    dispatch({ type: 'replace', snapshot: { source, modifications } });
+    await alignMusic();
+  };
 
-const addSlide = async (preview: Preview) => {
-  // Get the video source
-  // Refer to: https://creatomate.com/docs/json/introduction
-  const source = preview.getSource();
+  // Applies timing and animation changes to the source of a slide
+  const changeSlideSettings = async (slideName: string, changes: SlideSettings, mergeKey?: string) => {
+    history.record(mergeKey && `${slideName}.${mergeKey}`);
+    dispatch({ type: 'setSource', source: updateSlideSettings(getState().source, slideName, changes) });
+    await alignMusic();
+  };
 
-  // Delete the 'duration' and 'time' property values to make each element (Slide-1, Slide-2, etc.) autosize on the timeline
-  delete source.duration;
-  for (const element of source.elements) {
-    delete element.time;
-  }
+  const changeMusic = async (music: BackgroundMusic | undefined, mergeKey?: string) => {
+    // The length of the video is taken from the preview once it shows the latest changes
+    try {
+      await editor.flush();
+    } catch (error) {
+      notifyError(error, { context: 'The music could not be changed' });
+      return;
+    }
 
-  // Find the last slide element (e.g. Slide-3)
-  const lastSlideIndex = source.elements.findLastIndex((element: any) => element.name?.startsWith('Slide-'));
-  if (lastSlideIndex !== -1) {
-    const slideName = `Slide-${lastSlideIndex}`;
+    const previewState = editor.getPreviewState();
+    if (!previewState) {
+      return;
+    }
 
-    // Create a new slide
-    const newSlideSource = createSlide(slideName, `This is the text caption for newly added slide ${lastSlideIndex}.`);
+    history.record(mergeKey && `music.${mergeKey}`);
+    const duration = getContentDuration(previewState);
+    dispatch({ type: 'setSource', source: setBackgroundMusic(getState().source, music, duration) });
+  };
 
-    // Insert the new slide
-    source.elements.splice(lastSlideIndex + 1, 0, newSlideSource);
+  // Keeps the music spanning the entire video after a change to its length, e.g. when a slide is added or removed
+  // The music is updated without recording it, so that it's undone along with the change
+  const alignMusic = async () => {
+    try {
+      await editor.flush();
+    } catch (error) {
+      notifyError(error, { context: 'The music could not be adjusted to the length of the video' });
+      return;
+    }
 
-    // Update the video source
-    await preview.setSource(source);
+    const previewState = editor.getPreviewState();
+    const source = previewState && alignBackgroundMusic(getState().source, previewState);
+    if (source) {
+      dispatch({ type: 'setSource', source });
+    }
+  };
 
-    // Jump to the time at which the text element is visible
-    await ensureElementVisibility(preview, `${slideName}-Text`, 1.5);
+  const changeSubtitles = (cues: Cue[], style: SubtitleStyle, mergeKey?: string) => {
+    history.record(mergeKey && `subtitles.${mergeKey}`);
+    const brandKitStyle = brandKit?.style ?? defaultBrandKitStyle;
+    dispatch({ type: 'setSource', source: setSubtitles(getState().source, cues, style, brandKitStyle) });
+  };
 
-    // Scroll to the bottom of the settings panel
-    const panel = document.querySelector('#panel');
-    if (panel) {
-      panel.scrollTop = panel.scrollHeight;
+  // Changes the dimensions of the video, moving the text elements to fit the new format
+  const changeAspectRatio = (aspectRatio: AspectRatio) => {
+    history.record();
+    dispatch({ type: 'setSource', source: convertAspectRatio(getState().source, aspectRatio) });
+  };
+
+  const changeBrandKit = (value: AppliedBrandKit, mergeKey?: string) => {
+    history.record(mergeKey && `brandKit.${mergeKey}`);
+    setBrandKit(value);
+    dispatch({ type: 'setSource', source: applyBrandKit(getState().source, value.style) });
+  };
+
+  // The saved brand kit of the project is already part of its source, so it doesn't have to be applied again
+  const loadBrandKit = useCallback((value: AppliedBrandKit) => setBrandKit(value), []);
+
+  const dropSlide = (slideName: string, centerY: number) => {
+    // The new position is the number of other slides that are above the center of the dropped slide
+    const toIndex = slideNames.filter((name) => {
+      const rect = name !== slideName && slideGroupsRef.current.get(name)?.getBoundingClientRect();
+      return rect && rect.top + rect.height / 2 < centerY;
+    }).length;
+
+    if (toIndex !== slideNames.indexOf(slideName)) {
+      editSlides((source, modifications) => moveSlide(source, modifications, slideName, toIndex));
     }
+  };
+
+  return (
+    <div>
+      <ProjectBar title={props.project?.title} status={saveStatus} onSave={saveProject} onShare={share} />
+
+      {collaboration.peers.length > 0 && <CollaboratorList peers={collaboration.peers} onFollow={followPeer} />}
+
+      {templates.length > 1 && (
+        <SelectInput value={props.templateId} onChange={(e) => switchTemplate(e.target.value)}>
+          {!templates.some((template) => template.id === props.templateId) && (
+            <option value={props.templateId}>Current template</option>
+          )}
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              Template: {template.name}
+            </option>
+          ))}
+        </SelectInput>
+      )}
+
+      <Toolbar>
+        <HistoryButton disabled={!history.canUndo} onClick={history.undo} title="Undo (Ctrl+Z)">
+          Undo
+        </HistoryButton>
+        <HistoryButton disabled={!history.canRedo} onClick={history.redo} title="Redo (Ctrl+Shift+Z)">
+          Redo
+        </HistoryButton>
+        <CreateButton
+          preview={props.preview}
+          templateId={props.templateId}
+          title={props.project?.title}
+          getCurrentTime={props.getCurrentTime}
+          overflowingTexts={overflowingLabels}
+        />
+      </Toolbar>
+
+      <AspectRatioSwitcher
+        value={props.currentState && findAspectRatio(props.currentState.width, props.currentState.height)}
+        onChange={changeAspectRatio}
+      />
+
+      <MusicPanel
+        preview={props.preview}
+        value={props.currentState && getBackgroundMusic(props.currentState)}
+        onChange={changeMusic}
+      />
+
+      <BrandKitPanel
+        preview={props.preview}
+        value={brandKit}
+        initialBrandKitId={props.project?.brandKitId}
+        onLoad={loadBrandKit}
+        onChange={changeBrandKit}
+      />
+
+      {slides.length > 0 && <SlideFilmstrip templateId={props.templateId} slides={slides} onSelect={selectSlide} />}
+
+      {fieldGroups.map((group) => {
+        const isSlideGroup = slideNames.includes(group.name);
+
+        const content = (
+          <Fragment>
+            {group.fields.map((field) => (
+              <FieldInput
+                key={field.selector}
+                preview={props.preview}
+                field={field}
+                overflows={overflowingNames.has(field.element.source.name)}
+                peers={collaboration.peers.filter((peer) => peer.elementName === field.element.source.name)}
+                onChange={changeValue}
+              />
+            ))}
+            {group.composition && (isSlideGroup || getTransitionAnimation(group.composition)) && (
+              <SlideSettingsForm
+                settings={getCompositionSettings(group.composition, isSlideGroup)}
+                onFocus={() => ensureElementVisibility(props.preview, group.name, 0.5)}
+                onChange={(changes, mergeKey) => changeSlideSettings(group.name, changes, mergeKey)}
+              />
+            )}
+          </Fragment>
+        );
+
+        if (isSlideGroup) {
+          return (
+            <SlideGroup
+              key={group.name}
+              name={group.name}
+              title={group.label}
+              canRemove={slideNames.length > 1}
+              onDuplicate={() =>
+                editSlides((source, modifications) => duplicateSlide(source, modifications, group.name))
+              }
+              onRemove={() => editSlides((source, modifications) => removeSlide(source, modifications, group.name))}
+              onDrop={(centerY) => dropSlide(group.name, centerY)}
+              groupRef={(element) => {
+                if (element) {
+                  slideGroupsRef.current.set(group.name, element);
+                } else {
+                  slideGroupsRef.current.delete(group.name);
+                }
+              }}
+            >
+              {content}
+            </SlideGroup>
+          );
+        }
+
+        return (
+          <Group key={group.name} data-element-name={group.composition?.source.name}>
+            <GroupTitle>{group.label}</GroupTitle>
+            {content}
+          </Group>
+        );
+      })}
+
+      {slideNames.length > 0 && (
+        <Button
+          onClick={async () => {
+            await editSlides((source, modifications) =>
+              insertSlide(source, modifications, (slideName, slideNumber) =>
+                createSlide(
+                  slideName,
+                  `This is the text caption for newly added slide ${slideNumber}.`,
+                  brandKit?.style ?? defaultBrandKitStyle,
+                  findAspectRatio(Number(source.width) || 1920, Number(source.height) || 1080),
+                ),
+              ),
+            );
+
+            // Jump to the time at which the text element of the new slide is visible
+            await ensureElementVisibility(props.preview, `Slide-${slideNames.length + 1}-Text`, 1.5);
+
+            // Scroll to the bottom of the settings panel
+            const panel = document.querySelector('#panel');
+            if (panel) {
+              panel.scrollTop = panel.scrollHeight;
+            }
+          }}
+          style={{ width: '100%' }}
+        >
+          Add Slide
+        </Button>
+      )}
+
+      {subtitles && (
+        <CaptionsPanel
+          preview={props.preview}
+          cues={subtitles.cues}
+          style={subtitles.style}
+          title={props.project?.title}
+          onChange={changeSubtitles}
+        />
+      )}
+
+      <BatchPanel
+        preview={props.preview}
+        templateId={props.templateId}
+        title={props.project?.title}
+        revision={history.revision}
+      />
+    </div>
+  );
+};
+
+const Toolbar = styled.div`
+  display: flex;
+  align-items: center;
+
+  > :last-child {
+    margin-left: auto;
+  }
+`;
+
+const HistoryButton = styled(Button)`
+  margin-right: 10px;
+  background: #f5f7f8;
+  color: #333;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
   }
+`;
+
+// Slides get all settings, other compositions only their transition
+const getCompositionSettings = (composition: ElementState, isSlide: boolean): SlideSettings => {
+  const settings = getSlideSettings(composition);
+  return isSlide ? settings : { transition: settings.transition };
 };
 
-const createSlide = (slideName: string, caption: string) => {
+const createSlide = (slideName: string, caption: string, style: BrandKitStyle, aspectRatio?: AspectRatio) => {
   // This is the JSON of a new slide. It is based on existing slides in the "Image Slideshow w/ Intro and Outro" template.
   // Refer to: https://creatomate.com/docs/json/introduction
-  return {
+  const slide = {
     name: slideName,
     type: 'composition',
     track: 1,
@@ -316,4 +576,14 @@ const createSlide = (slideName: string, caption: string) => {
       },
     ],
   };
+
+  // Style the caption with the brand kit, replacing the font and colors of the template
+  applyTextStyle(slide.elements[1], style);
+
+  // The slide is laid out for landscape videos, so the text is moved to fit the format of the video
+  if (aspectRatio) {
+    return convertAspectRatio({ width: 1920, height: 1080, elements: [slide] }, aspectRatio).elements[0];
+  }
+
+  return slide;
 };
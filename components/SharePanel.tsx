@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import type { Share } from '../server/shareStore';
+import { createProject } from '../utility/projectsApi';
+import { Button } from './Button';
+import { useNotifications } from './Notifications';
+
+interface SharePanelProps {
+  share: Share;
+}
+
+// Shown instead of the settings panel when viewing a shared edit, which can't be changed
+export const SharePanel: React.FC<SharePanelProps> = ({ share }) => {
+  const { notifyError } = useNotifications();
+  const router = useRouter();
+  const [isCopying, setIsCopying] = useState(false);
+
+  // Saves the shared edit as a new project, which is then opened in the editor
+  const makeCopy = async () => {
+    setIsCopying(true);
+    try {
+      const project = await createProject({
+        title: `Copy of ${share.title ?? 'shared video'}`,
+        templateId: share.templateId,
+        source: share.source,
+        modifications: share.modifications,
+      });
+      await router.push({ pathname: '/', query: { project: project.id } });
+    } catch (error) {
+      notifyError(error, { context: 'The copy could not be made', retry: makeCopy });
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <Component>
+      <Title>{share.title ?? 'Shared video'}</Title>
+      <Description>
+        This is a read-only preview, shared on {new Date(share.createdAt).toLocaleString()}. Make a copy to keep editing
+        it.
+      </Description>
+      <Button disabled={isCopying} onClick={makeCopy} style={{ width: '100%' }}>
+        {isCopying ? 'Copying...' : 'Make a Copy'}
+      </Button>
+      <Link href="/projects">← Projects</Link>
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  a {
+    display: block;
+    margin-top: 20px;
+    font-size: 14px;
+    color: #0065eb;
+    text-decoration: none;
+  }
+`;
+
+const Title = styled.div`
+  font-size: 18px;
+  font-weight: 600;
+`;
+
+const Description = styled.div`
+  margin: 10px 0 20px 0;
+  font-size: 14px;
+  color: #4d5966;
+`;
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { ElementState } from '@creatomate/preview';
+import { useEditor } from '../utility/editorStore';
+import { getSlideVideo } from '../utility/slides';
+import { fetchSnapshot, SnapshotRequest } from '../utility/snapshotsApi';
+
+interface SlideFilmstripProps {
+  templateId: string;
+  // The slide compositions, in the order they appear in the video
+  slides: ElementState[];
+  // Called when a thumbnail is clicked
+  onSelect: (slide: ElementState) => void;
+}
+
+// How long a slide has to stay unchanged before its thumbnail is rendered again, in milliseconds
+const refreshDelay = 1500;
+
+// The maximum number of thumbnails that are kept in memory
+const maxCachedThumbnails = 100;
+
+// The object URLs of the rendered thumbnails by their snapshot request, kept across editors
+const thumbnailCache = new Map<string, string>();
+
+// A row of thumbnails of the slides, each showing the frame halfway through the slide
+export const SlideFilmstrip: React.FC<SlideFilmstripProps> = (props) => {
+  const { state } = useEditor();
+
+  // Incremented when a thumbnail has been rendered, which updates the component
+  const [, setLoadedCount] = useState(0);
+
+  // The last thumbnail of each slide, which is shown while the thumbnail of its latest change is being rendered
+  const shownThumbnailsRef = useRef(new Map<string, string>());
+
+  // Requests that failed aren't tried again until the slide changes
+  const failedKeysRef = useRef(new Set<string>());
+
+  const snapshots = useMemo(
+    () =>
+      props.slides.map((slide) => {
+        const video = getSlideVideo(state.source, state.modifications, slide.source.name, slide.duration);
+        const request: SnapshotRequest | undefined = video && {
+          templateId: props.templateId,
+          ...video,
+          time: slide.duration / 2,
+        };
+        return { slide, key: request && JSON.stringify(request) };
+      }),
+    [props.slides, props.templateId, state.source, state.modifications],
+  );
+
+  // Only the keys are compared, so that changes to other parts of the video don't restart the delay
+  const missingKeys = snapshots
+    .map((snapshot) => snapshot.key)
+    .filter((key): key is string => !!key && !thumbnailCache.has(key) && !failedKeysRef.current.has(key));
+  const missingKeysString = JSON.stringify(missingKeys);
+
+  // Render the thumbnails one at a time, once the slides have stopped changing
+  useEffect(() => {
+    const keys: string[] = JSON.parse(missingKeysString);
+    if (keys.length === 0) {
+      return;
+    }
+
+    let isCancelled = false;
+    const timeout = setTimeout(async () => {
+      for (const key of keys) {
+        if (isCancelled) {
+          return;
+        }
+
+        try {
+          const blob = await fetchSnapshot(JSON.parse(key));
+          cacheThumbnail(key, URL.createObjectURL(blob));
+          setLoadedCount((count) => count + 1);
+        } catch (error) {
+          // The slide is shown by its number instead
+          failedKeysRef.current.add(key);
+        }
+      }
+    }, refreshDelay);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [missingKeysString]);
+
+  return (
+    <Component>
+      {snapshots.map(({ slide, key }, i) => {
+        const slideName = slide.source.name;
+        const thumbnail = (key && thumbnailCache.get(key)) || shownThumbnailsRef.current.get(slideName);
+        if (thumbnail) {
+          shownThumbnailsRef.current.set(slideName, thumbnail);
+        }
+
+        return (
+          <Thumbnail
+            key={slideName}
+            title={`Slide ${i + 1}`}
+            style={{
+              aspectRatio: `${state.source.width ?? 16} / ${state.source.height ?? 9}`,
+              backgroundImage: thumbnail ? `url(${thumbnail})` : undefined,
+              borderColor: slideName === state.selectedElementName ? '#0065eb' : undefined,
+            }}
+            onClick={() => props.onSelect(slide)}
+          >
+            <SlideNumber>{i + 1}</SlideNumber>
+          </Thumbnail>
+        );
+      })}
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  display: flex;
+  gap: 8px;
+  margin: 20px 0;
+  padding-bottom: 5px;
+  overflow-x: auto;
+`;
+
+const Thumbnail = styled.button`
+  flex-shrink: 0;
+  position: relative;
+  height: 60px;
+  padding: 0;
+  background: #e1e6eb center / cover no-repeat;
+  border: 2px solid transparent;
+  border-radius: 5px;
+  cursor: pointer;
+`;
+
+const SlideNumber = styled.div`
+  position: absolute;
+  left: 4px;
+  bottom: 4px;
+  padding: 0 5px;
+  background: rgba(0, 0, 0, 0.6);
+  border-radius: 3px;
+  color: #fff;
+  font-size: 11px;
+  line-height: 16px;
+`;
+
+const cacheThumbnail = (key: string, url: string) => {
+  thumbnailCache.set(key, url);
+
+  // Maps keep their insertion order, so the first entry is the oldest thumbnail
+  if (thumbnailCache.size > maxCachedThumbnails) {
+    const [oldestKey, oldestUrl] = thumbnailCache.entries().next().value as [string, string];
+    thumbnailCache.delete(oldestKey);
+    URL.revokeObjectURL(oldestUrl);
+  }
+};
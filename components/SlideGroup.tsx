@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import styled from 'styled-components';
+import Draggable from 'react-draggable';
+import { Group, GroupTitle } from './Group';
+
+interface SlideGroupProps {
+  // The name of the slide composition
+  name: string;
+  title: string;
+  canRemove: boolean;
+  onDuplicate: () => void;
+  onRemove: () => void;
+  // Called when the group is dropped, with the vertical center of the group in viewport coordinates
+  onDrop: (centerY: number) => void;
+  groupRef: (element: HTMLDivElement | null) => void;
+  children?: React.ReactNode;
+}
+
+export const SlideGroup: React.FC<SlideGroupProps> = (props) => {
+  const nodeRef = useRef<HTMLDivElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  return (
+    <Draggable
+      axis="y"
+      handle=".drag-handle"
+      nodeRef={nodeRef}
+      // The group always moves back to its place, as it's rerendered at its new position once it has been dropped
+      position={{ x: 0, y: 0 }}
+      onStart={() => setIsDragging(true)}
+      onStop={() => {
+        setIsDragging(false);
+
+        const rect = nodeRef.current?.getBoundingClientRect();
+        if (rect) {
+          props.onDrop(rect.top + rect.height / 2);
+        }
+      }}
+    >
+      <Group
+        data-element-name={props.name}
+        ref={(element) => {
+          (nodeRef as React.MutableRefObject<HTMLDivElement | null>).current = element;
+          props.groupRef(element);
+        }}
+        style={isDragging ? { position: 'relative', zIndex: 1, boxShadow: 'rgba(0, 0, 0, 0.15) 0 6px 15px 0' } : {}}
+      >
+        <Header>
+          <DragHandle className="drag-handle" title="Drag to reorder">
+            ⠿
+          </DragHandle>
+          <GroupTitle style={{ marginBottom: 0 }}>{props.title}</GroupTitle>
+          <HeaderButton onClick={props.onDuplicate} title="Duplicate slide">
+            Duplicate
+          </HeaderButton>
+          <HeaderButton onClick={props.onRemove} disabled={!props.canRemove} title="Remove slide">
+            Remove
+          </HeaderButton>
+        </Header>
+        {props.children}
+      </Group>
+    </Draggable>
+  );
+};
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  margin-bottom: 15px;
+
+  > :nth-child(2) {
+    flex: 1;
+  }
+`;
+
+const DragHandle = styled.div`
+  margin-right: 10px;
+  font-size: 18px;
+  line-height: 1;
+  color: #8c99a6;
+  cursor: grab;
+  user-select: none;
+`;
+
+const HeaderButton = styled.button`
+  margin-left: 10px;
+  padding: 0;
+  border: none;
+  background: none;
+  color: #0065eb;
+  font-size: 14px;
+  cursor: pointer;
+
+  &:disabled {
+    color: #b3bfcc;
+    cursor: default;
+  }
+`;
@@ -0,0 +1,177 @@
+import React, { Fragment } from 'react';
+import styled from 'styled-components';
+import {
+  minSlideDuration,
+  SlideSettings,
+  textAnimationDirections,
+  textAnimationTypes,
+  transitionTypes,
+} from '../utility/slideSettings';
+import { SelectInput } from './SelectInput';
+import { DecimalInput } from './DecimalInput';
+
+interface SlideSettingsFormProps {
+  settings: SlideSettings;
+  // Typing in a number input is passed with a merge key, so that it's combined into one undo step
+  onChange: (changes: SlideSettings, mergeKey?: string) => void;
+  onFocus?: () => void;
+}
+
+// Focal points of the Ken Burns effect, as a position in percent
+const focalPoints = [
+  { label: 'Center', x: 50, y: 50 },
+  { label: 'Top', x: 50, y: 0 },
+  { label: 'Bottom', x: 50, y: 100 },
+  { label: 'Left', x: 0, y: 50 },
+  { label: 'Right', x: 100, y: 50 },
+  { label: 'Top Left', x: 0, y: 0 },
+  { label: 'Top Right', x: 100, y: 0 },
+  { label: 'Bottom Left', x: 0, y: 100 },
+  { label: 'Bottom Right', x: 100, y: 100 },
+];
+
+export const SlideSettingsForm: React.FC<SlideSettingsFormProps> = ({ settings, onChange, onFocus }) => {
+  const { duration, transition, kenBurns, textAnimation } = settings;
+  const focalPoint = kenBurns && focalPoints.find((point) => point.x === kenBurns.x && point.y === kenBurns.y);
+  const textAnimationType = textAnimationTypes.find((animation) => animation.type === textAnimation?.type);
+
+  return (
+    <Component>
+      {duration !== undefined && (
+        <Fragment>
+          <Label>Duration (seconds)</Label>
+          <DecimalInput
+            value={duration}
+            min={minSlideDuration}
+            step={0.5}
+            onFocus={onFocus}
+            onChange={(duration) => onChange({ duration }, 'duration')}
+          />
+        </Fragment>
+      )}
+
+      {transition && (
+        <Fragment>
+          <Label>Transition</Label>
+          <Row>
+            <SelectInput
+              value={transition.type}
+              onFocus={onFocus}
+              onChange={(e) => onChange({ transition: { ...transition, type: e.target.value } })}
+            >
+              {transitionTypes.map(({ type, label }) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </SelectInput>
+            {transition.type !== 'none' && (
+              <DecimalInput
+                value={transition.duration}
+                min={0.1}
+                step={0.1}
+                title="Transition duration in seconds"
+                onFocus={onFocus}
+                onChange={(duration) => onChange({ transition: { ...transition, duration } }, 'transition')}
+              />
+            )}
+          </Row>
+        </Fragment>
+      )}
+
+      {kenBurns && (
+        <Fragment>
+          <Label>Zoom from / to (%)</Label>
+          <Row>
+            <DecimalInput
+              value={kenBurns.startScale}
+              min={100}
+              step={5}
+              title="Start scale in percent"
+              onFocus={onFocus}
+              onChange={(startScale) => onChange({ kenBurns: { ...kenBurns, startScale } }, 'startScale')}
+            />
+            <DecimalInput
+              value={kenBurns.endScale}
+              min={100}
+              step={5}
+              title="End scale in percent"
+              onFocus={onFocus}
+              onChange={(endScale) => onChange({ kenBurns: { ...kenBurns, endScale } }, 'endScale')}
+            />
+          </Row>
+          <SelectInput
+            value={focalPoint?.label ?? ''}
+            title="Focal point of the zoom"
+            onFocus={onFocus}
+            onChange={(e) => {
+              const point = focalPoints.find((point) => point.label === e.target.value);
+              if (point) {
+                onChange({ kenBurns: { ...kenBurns, x: point.x, y: point.y } });
+              }
+            }}
+          >
+            {!focalPoint && <option value="">Custom Focal Point</option>}
+            {focalPoints.map((point) => (
+              <option key={point.label} value={point.label}>
+                Zoom Into {point.label}
+              </option>
+            ))}
+          </SelectInput>
+        </Fragment>
+      )}
+
+      {textAnimation && (
+        <Fragment>
+          <Label>Text Animation</Label>
+          <Row>
+            <SelectInput
+              value={textAnimation.type}
+              onFocus={onFocus}
+              onChange={(e) => onChange({ textAnimation: { ...textAnimation, type: e.target.value } })}
+            >
+              {!textAnimationType && <option value={textAnimation.type}>Custom</option>}
+              {textAnimationTypes.map(({ type, label }) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </SelectInput>
+            {textAnimationType?.hasDirection && (
+              <SelectInput
+                value={textAnimation.direction}
+                onFocus={onFocus}
+                onChange={(e) => onChange({ textAnimation: { ...textAnimation, direction: e.target.value } })}
+              >
+                {textAnimationDirections.map((direction) => (
+                  <option key={direction} value={direction}>
+                    {direction[0].toUpperCase() + direction.slice(1)}
+                  </option>
+                ))}
+              </SelectInput>
+            )}
+          </Row>
+        </Fragment>
+      )}
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  margin-top: 15px;
+`;
+
+const Label = styled.div`
+  margin-top: 10px;
+  font-size: 14px;
+  color: #4d5966;
+
+  &:first-child {
+    margin-top: 0;
+  }
+`;
+
+const Row = styled.div`
+  display: flex;
+  gap: 10px;
+`;
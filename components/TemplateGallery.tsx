@@ -0,0 +1,100 @@
+import React from 'react';
+import styled from 'styled-components';
+import Link from 'next/link';
+import { listTemplates } from '../utility/templateRegistry';
+
+export const TemplateGallery: React.FC = () => {
+  const templates = listTemplates();
+  const categories = templates
+    .map((template) => template.category)
+    .filter((category, i, categories) => categories.indexOf(category) === i);
+
+  return (
+    <Component>
+      <Header>
+        <h1>Choose a Template</h1>
+        <Link href="/projects">← Projects</Link>
+      </Header>
+
+      {templates.length === 0 && (
+        <Empty>No templates have been set up yet. Please refer to the README.md for instructions.</Empty>
+      )}
+
+      {categories.map((category) => (
+        <section key={category}>
+          <Category>{category}</Category>
+          <Grid>
+            {templates
+              .filter((template) => template.category === category)
+              .map((template) => (
+                <Card key={template.id} href={`/editor/${encodeURIComponent(template.id)}`}>
+                  <Thumbnail
+                    style={template.thumbnail ? { backgroundImage: `url(${template.thumbnail})` } : undefined}
+                  />
+                  <CardTitle>{template.name}</CardTitle>
+                </Card>
+              ))}
+          </Grid>
+        </section>
+      ))}
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  margin: 50px auto;
+  padding: 0 20px;
+  max-width: 960px;
+`;
+
+const Header = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 20px;
+
+  h1 {
+    margin: 0;
+    font-size: 24px;
+  }
+
+  a {
+    color: #0065eb;
+    text-decoration: none;
+  }
+`;
+
+const Empty = styled.div`
+  color: #8c99a6;
+`;
+
+const Category = styled.h2`
+  margin: 30px 0 10px 0;
+  font-size: 18px;
+`;
+
+const Grid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+  gap: 20px;
+`;
+
+const Card = styled(Link)`
+  display: block;
+  overflow: hidden;
+  background: #fff;
+  box-shadow: rgba(0, 0, 0, 0.1) 0 6px 15px 0;
+  border-radius: 5px;
+  color: inherit;
+  text-decoration: none;
+`;
+
+const Thumbnail = styled.div`
+  aspect-ratio: 16 / 9;
+  background: #e1e6eb center / cover no-repeat;
+`;
+
+const CardTitle = styled.div`
+  padding: 15px;
+  font-weight: 600;
+`;
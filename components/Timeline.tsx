@@ -0,0 +1,215 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import styled from 'styled-components';
+import { ElementState, PreviewState } from '@creatomate/preview';
+import { PreviewAdapter } from '../utility/previewAdapter';
+import { formatTime, getTimelineLanes } from '../utility/timeline';
+
+interface TimelineProps {
+  preview: PreviewAdapter;
+  state: PreviewState;
+  onTimeChange: (time: number) => void;
+  // Called when a block of the timeline is clicked
+  onSelectElement: (element: ElementState) => void;
+  // The element that is selected in the editor, which is highlighted
+  selectedElementName?: string;
+}
+
+// Transport controls and a timeline of the video, replacing the controls of the player
+export const Timeline: React.FC<TimelineProps> = (props) => {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const scrubBarRef = useRef<HTMLDivElement>(null);
+
+  const { preview, onTimeChange } = props;
+
+  // The timeline takes over the playback events of the preview
+  useEffect(() => {
+    preview.onPlay = () => setIsPlaying(true);
+    preview.onPause = () => setIsPlaying(false);
+    preview.onTimeChange = (time) => {
+      setCurrentTime(time);
+      onTimeChange(time);
+    };
+
+    return () => {
+      preview.onPlay = undefined;
+      preview.onPause = undefined;
+      preview.onTimeChange = undefined;
+    };
+  }, [preview, onTimeChange]);
+
+  const lanes = useMemo(() => getTimelineLanes(props.state), [props.state]);
+  const duration = props.state.duration;
+
+  // Returns the time at the horizontal position of the pointer
+  const getPointerTime = (e: React.PointerEvent) => {
+    const rect = scrubBarRef.current!.getBoundingClientRect();
+    return Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1) * duration;
+  };
+
+  const toPercentage = (time: number) => `${(duration > 0 ? time / duration : 0) * 100}%`;
+
+  return (
+    <Component>
+      <Transport>
+        <PlayButton onClick={() => (isPlaying ? preview.pause() : preview.play())} title={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? '❚❚' : '▶'}
+        </PlayButton>
+        <Time>
+          {formatTime(currentTime)} / {formatTime(duration)}
+        </Time>
+      </Transport>
+
+      <Lane>
+        <LaneLabel />
+        <ScrubBar
+          ref={scrubBarRef}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            preview.setTime(getPointerTime(e));
+          }}
+          onPointerMove={(e) => {
+            if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+              preview.setTime(getPointerTime(e));
+            }
+          }}
+        >
+          <ScrubProgress style={{ width: toPercentage(currentTime) }} />
+        </ScrubBar>
+      </Lane>
+
+      <Lanes>
+        {lanes.map((lane) => (
+          <Lane key={lane.key}>
+            <LaneLabel>{lane.label}</LaneLabel>
+            <LaneBlocks>
+              {lane.blocks.map((block) => (
+                <Block
+                  key={block.element.source.name}
+                  title={`${block.label} (${formatTime(block.start)})`}
+                  isText={block.element.source.type === 'text'}
+                  style={{
+                    left: toPercentage(block.start),
+                    width: toPercentage(block.duration),
+                    borderColor: block.element.source.name === props.selectedElementName ? '#0065eb' : undefined,
+                  }}
+                  onClick={() => props.onSelectElement(block.element)}
+                >
+                  {block.label}
+                </Block>
+              ))}
+              <Playhead style={{ left: toPercentage(currentTime) }} />
+            </LaneBlocks>
+          </Lane>
+        ))}
+      </Lanes>
+    </Component>
+  );
+};
+
+const Component = styled.div`
+  padding: 10px 15px;
+  background: #fff;
+  font-size: 13px;
+
+  @media (min-width: 768px) {
+    margin-top: 20px;
+    border-radius: 10px;
+    box-shadow: rgba(0, 0, 0, 0.1) 0 6px 15px 0;
+  }
+`;
+
+const Transport = styled.div`
+  display: flex;
+  align-items: center;
+  margin-bottom: 10px;
+`;
+
+const PlayButton = styled.button`
+  flex-shrink: 0;
+  width: 32px;
+  height: 32px;
+  padding: 0;
+  border: none;
+  border-radius: 50%;
+  background: #0065eb;
+  color: #fff;
+  font-size: 12px;
+  cursor: pointer;
+`;
+
+const ScrubBar = styled.div`
+  flex: 1;
+  position: relative;
+  height: 6px;
+  background: #e1e6eb;
+  border-radius: 3px;
+  cursor: pointer;
+  touch-action: none;
+`;
+
+const ScrubProgress = styled.div`
+  height: 100%;
+  background: #0065eb;
+  border-radius: 3px;
+  pointer-events: none;
+`;
+
+const Time = styled.div`
+  margin-left: 10px;
+  color: #4d5966;
+  font-variant-numeric: tabular-nums;
+`;
+
+const Lanes = styled.div`
+  max-height: 160px;
+  overflow-y: auto;
+`;
+
+const Lane = styled.div`
+  display: flex;
+  align-items: center;
+  margin-bottom: 4px;
+`;
+
+const LaneLabel = styled.div`
+  flex-shrink: 0;
+  width: 47px;
+  color: #8c99a6;
+  white-space: nowrap;
+`;
+
+const LaneBlocks = styled.div`
+  flex: 1;
+  position: relative;
+  height: 22px;
+  background: #f5f7f8;
+  border-radius: 3px;
+`;
+
+const Block = styled.div<{ isText: boolean }>`
+  position: absolute;
+  top: 2px;
+  bottom: 2px;
+  padding: 0 5px;
+  overflow: hidden;
+  background: ${(props) => (props.isText ? '#dcab5e' : '#8fb8f5')};
+  border: 1px solid #fff;
+  border-radius: 3px;
+  color: #fff;
+  font-size: 11px;
+  line-height: 16px;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  cursor: pointer;
+`;
+
+const Playhead = styled.div`
+  position: absolute;
+  top: -2px;
+  bottom: -2px;
+  width: 2px;
+  margin-left: -1px;
+  background: #e74c3c;
+  pointer-events: none;
+`;
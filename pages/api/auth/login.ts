@@ -0,0 +1,26 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { authProvider, createSessionToken, isAuthEnabled, setSessionCookie } from '../../../server/auth';
+import { sendError } from '../../../server/apiErrors';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' || !isAuthEnabled()) {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  const { username, password } = req.body ?? {};
+  const user =
+    typeof username === 'string' && typeof password === 'string'
+      ? await authProvider.verifyCredentials(username, password)
+      : undefined;
+
+  if (!user) {
+    sendError(res, 'unauthorized', 'The username or password is incorrect.');
+    return;
+  }
+
+  // The token is also returned, so that it can be used in an 'Authorization: Bearer' header by API clients
+  const token = createSessionToken(user.id);
+  setSessionCookie(res, token);
+  res.status(200).json({ id: user.id, name: user.name, token });
+}
@@ -0,0 +1,13 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { setSessionCookie } from '../../../server/auth';
+import { sendError } from '../../../server/apiErrors';
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  setSessionCookie(res, undefined);
+  res.status(204).end();
+}
@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getUser, isAuthEnabled } from '../../../server/auth';
+import { getQuota } from '../../../server/quota';
+import { sendError } from '../../../server/apiErrors';
+
+// Returns the signed in user along with their remaining render quota
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  if (!isAuthEnabled()) {
+    res.status(200).json({ authEnabled: false });
+    return;
+  }
+
+  const user = await getUser(req);
+  if (!user) {
+    res.status(401).json({ authEnabled: true });
+    return;
+  }
+
+  res.status(200).json({ authEnabled: true, user: { id: user.id, name: user.name }, quota: await getQuota(user) });
+}
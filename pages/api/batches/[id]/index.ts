@@ -0,0 +1,21 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { batchStore, describeBatch } from '../../../../server/batchStore';
+import { canAccess, getUser, isAuthEnabled } from '../../../../server/auth';
+import { sendError } from '../../../../server/apiErrors';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  // The batches of other users are treated as if they don't exist
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+  const batch = await batchStore.get(req.query.id as string);
+  if (!batch || !canAccess(user, batch.userId)) {
+    sendError(res, 'not_found', 'The batch does not exist.');
+    return;
+  }
+
+  res.status(200).json(await describeBatch(batch));
+}
@@ -0,0 +1,63 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import { batchStore } from '../../../../server/batchStore';
+import { jobStore, RenderJob } from '../../../../server/jobStore';
+import { fetchRenderFile } from '../../../../server/renderJobs';
+import { createZip, ZipEntry } from '../../../../server/zip';
+import { canAccess, getUser, isAuthEnabled } from '../../../../server/auth';
+import { sendError } from '../../../../server/apiErrors';
+
+// Downloads the finished renders of a batch as a single ZIP file
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+  const batch = await batchStore.get(req.query.id as string);
+  if (!batch || !canAccess(user, batch.userId)) {
+    sendError(res, 'not_found', 'The batch does not exist.');
+    return;
+  }
+
+  const jobs: RenderJob[] = [];
+  for (const row of batch.rows) {
+    const job = row.jobId ? await jobStore.get(row.jobId) : undefined;
+    if (job?.status === 'succeeded' && job.url) {
+      jobs.push(job);
+    }
+  }
+
+  if (jobs.length === 0) {
+    sendError(res, 'not_found', 'The batch does not exist.');
+    return;
+  }
+
+  // The files are downloaded one at a time while the archive is sent, so its size isn't known in advance
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', `attachment; filename="${getZipFileName(batch.title)}"`);
+  res.status(200);
+
+  try {
+    await pipeline(Readable.from(createZip(downloadFiles(jobs))), res);
+  } catch (error) {
+    // A file could not be downloaded after the response had already started, so the download is aborted instead
+    res.destroy();
+  }
+}
+
+async function* downloadFiles(jobs: RenderJob[]): AsyncGenerator<ZipEntry> {
+  for (const job of jobs) {
+    const response = await fetchRenderFile(job.url!);
+    if (!response.ok || !response.body) {
+      throw new Error('The files could not be downloaded from Creatomate.');
+    }
+
+    yield { name: job.fileName, data: Readable.fromWeb(response.body as ReadableStream<Uint8Array>) };
+  }
+}
+
+const getZipFileName = (title: string) => `${title.replace(/[^\w-]+/g, '-').toLowerCase() || 'batch'}.zip`;
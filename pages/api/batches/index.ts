@@ -0,0 +1,66 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { randomUUID } from 'crypto';
+import renderLimits from '../../../config/renderLimits.json';
+import { authorizeRender, startJob } from '../../../server/renderJobs';
+import { createRenderOptions } from '../../../server/renderOptions';
+import { validateModifications } from '../../../server/sourceValidation';
+import { Batch, batchStore, describeBatch } from '../../../server/batchStore';
+import { getDownloadFileName } from '../../../utility/outputOptions';
+import { sendError } from '../../../server/apiErrors';
+
+// Starts a render for each row, where each row is a modifications object applied on top of the editor's modifications
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  const rows = req.body.rows;
+  const modifications = req.body.modifications ?? {};
+  const rowCount = Array.isArray(rows) ? rows.length : 0;
+
+  const request = await authorizeRender(req, res, rowCount, (ownHost) => {
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return ['rows: At least one row must be provided.'];
+    } else if (rows.length > renderLimits.maxBatchRows) {
+      return [`rows: A batch can contain at most ${renderLimits.maxBatchRows} rows.`];
+    }
+
+    return [
+      ...validateModifications(modifications, 'modifications', ownHost, req.body.source),
+      ...rows.flatMap((row, i) => validateModifications(row, `rows[${i}]`, ownHost, req.body.source)),
+    ];
+  });
+
+  if (!request) {
+    return;
+  }
+
+  const title = typeof req.body.title === 'string' && req.body.title ? req.body.title : 'batch';
+  const now = new Date();
+  const batch: Batch = {
+    id: randomUUID(),
+    title,
+    userId: request.user?.id,
+    rows: [],
+    createdAt: now.toISOString(),
+  };
+
+  // The renders are started one by one, a failed row doesn't prevent the others from rendering
+  for (let i = 0; i < rows.length; i++) {
+    try {
+      const job = await startJob(
+        request,
+        { ...createRenderOptions(request.source, request.output), modifications: { ...modifications, ...rows[i] } },
+        getDownloadFileName(`${title}-${i + 1}`, request.output.format, now),
+        `${title} ${i + 1}`,
+      );
+      batch.rows.push({ jobId: job.id });
+    } catch (error) {
+      batch.rows.push({ errorMessage: (error as Error).message || 'The render could not be started.' });
+    }
+  }
+
+  await batchStore.save(batch);
+  res.status(202).json(await describeBatch(batch));
+}
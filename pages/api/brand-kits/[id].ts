@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { brandKitStore, parseBrandKitInput } from '../../../server/brandKitStore';
+import { isAssetAllowed } from '../../../server/sourceValidation';
+import { getOwnHost } from '../../../server/client';
+import { canAccess, getUser, isAuthEnabled } from '../../../server/auth';
+import { sendError } from '../../../server/apiErrors';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // The brand kits of other users are treated as if they don't exist
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+  const brandKit = await brandKitStore.get(req.query.id as string);
+  if (!brandKit || !canAccess(user, brandKit.userId)) {
+    sendError(res, 'not_found', 'The brand kit does not exist.');
+    return;
+  }
+
+  if (req.method === 'GET') {
+    res.status(200).json(brandKit);
+  } else if (req.method === 'PUT') {
+    // The brand kit is replaced as a whole, as its style is always edited together
+    const input = parseBrandKitInput(req.body);
+    if (!input) {
+      sendError(res, 'invalid_request', 'The brand kit is invalid.');
+      return;
+    }
+
+    // The logo is added to every video that the kit is applied to, so it must be hosted where sources may load assets from
+    if (input.logoUrl && !isAssetAllowed(input.logoUrl, getOwnHost())) {
+      sendError(res, 'validation_failed', 'The logo must be uploaded, or hosted on one of the allowed asset hosts.');
+      return;
+    }
+
+    const updatedBrandKit = {
+      ...input,
+      id: brandKit.id,
+      name: input.name || brandKit.name,
+      userId: brandKit.userId,
+      createdAt: brandKit.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await brandKitStore.save(updatedBrandKit);
+    res.status(200).json(updatedBrandKit);
+  } else if (req.method === 'DELETE') {
+    await brandKitStore.delete(brandKit.id);
+    res.status(204).end();
+  } else {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+  }
+}
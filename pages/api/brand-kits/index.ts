@@ -0,0 +1,48 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { randomUUID } from 'crypto';
+import { BrandKit, brandKitStore, parseBrandKitInput } from '../../../server/brandKitStore';
+import { isAssetAllowed } from '../../../server/sourceValidation';
+import { getOwnHost } from '../../../server/client';
+import { canAccess, getUser, isAuthEnabled } from '../../../server/auth';
+import { sendError } from '../../../server/apiErrors';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+
+  if (req.method === 'GET') {
+    const brandKits = (await brandKitStore.list()).filter((brandKit) => canAccess(user, brandKit.userId));
+    res.status(200).json(brandKits.sort((a, b) => a.name.localeCompare(b.name)));
+  } else if (req.method === 'POST') {
+    if (isAuthEnabled() && !user) {
+      sendError(res, 'unauthorized', 'Please sign in to save brand kits.');
+      return;
+    }
+
+    const input = parseBrandKitInput(req.body);
+    if (!input) {
+      sendError(res, 'invalid_request', 'The brand kit is invalid.');
+      return;
+    }
+
+    // The logo is added to every video that the kit is applied to, so it must be hosted where sources may load assets from
+    if (input.logoUrl && !isAssetAllowed(input.logoUrl, getOwnHost())) {
+      sendError(res, 'validation_failed', 'The logo must be uploaded, or hosted on one of the allowed asset hosts.');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const brandKit: BrandKit = {
+      ...input,
+      id: randomUUID(),
+      name: input.name || 'Untitled brand kit',
+      userId: user?.id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await brandKitStore.save(brandKit);
+    res.status(201).json(brandKit);
+  } else {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+  }
+}
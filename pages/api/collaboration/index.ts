@@ -0,0 +1,21 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { attachCollaborationServer } from '../../../server/collaboration';
+import { sendError } from '../../../server/apiErrors';
+
+// Starts accepting the WebSocket connections of the collaboration sessions, which the editor calls before connecting
+// The connections are handled by the HTTP server of Next.js, which is only reachable from within a request
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  const server = res.socket?.server;
+  if (!server) {
+    sendError(res, 'service_unavailable', 'Collaboration is not available on this server.');
+    return;
+  }
+
+  attachCollaborationServer(server);
+  res.status(204).end();
+}
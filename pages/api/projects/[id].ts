@@ -0,0 +1,56 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { canAccessProject, parseProjectInput, projectStore } from '../../../server/projectStore';
+import { canAccess, getUser, isAuthEnabled } from '../../../server/auth';
+import { sendError } from '../../../server/apiErrors';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // The projects that the user may not edit are treated as if they don't exist
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+  const project = await projectStore.get(req.query.id as string);
+  if (!project || !canAccessProject(user, project)) {
+    sendError(res, 'not_found', 'The project does not exist.');
+    return;
+  }
+
+  if (req.method === 'GET') {
+    res.status(200).json(project);
+  } else if (req.method === 'PUT') {
+    const input = parseProjectInput(req.body);
+    if (!input) {
+      sendError(res, 'invalid_request', 'The project is invalid.');
+      return;
+    }
+
+    // Only the owner decides who else may edit the project
+    if (input.collaboratorIds && !canAccess(user, project.userId)) {
+      sendError(res, 'forbidden', 'Only the owner of the project can change its collaborators.');
+      return;
+    }
+
+    // Only the provided properties are updated
+    const updatedProject = {
+      ...project,
+      title: input.title ?? project.title,
+      templateId: input.templateId || project.templateId,
+      source: input.source ?? project.source,
+      modifications: input.modifications ?? project.modifications,
+      // An empty string unlinks the brand kit
+      brandKitId: input.brandKitId === undefined ? project.brandKitId : input.brandKitId || undefined,
+      collaboratorIds: input.collaboratorIds ?? project.collaboratorIds,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await projectStore.save(updatedProject);
+    res.status(200).json(updatedProject);
+  } else if (req.method === 'DELETE') {
+    if (!canAccess(user, project.userId)) {
+      sendError(res, 'forbidden', 'Only the owner of the project can delete it.');
+      return;
+    }
+
+    await projectStore.delete(project.id);
+    res.status(204).end();
+  } else {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+  }
+}
@@ -0,0 +1,51 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { randomUUID } from 'crypto';
+import { canAccessProject, parseProjectInput, Project, projectStore } from '../../../server/projectStore';
+import { getUser, isAuthEnabled } from '../../../server/auth';
+import { sendError } from '../../../server/apiErrors';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+
+  if (req.method === 'GET') {
+    // List the projects without their source and modifications, as these can be large
+    const projects = (await projectStore.list()).filter((project) => canAccessProject(user, project));
+    res
+      .status(200)
+      .json(
+        projects
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+          .map(({ id, title, templateId, createdAt, updatedAt }) => ({ id, title, templateId, createdAt, updatedAt })),
+      );
+  } else if (req.method === 'POST') {
+    if (isAuthEnabled() && !user) {
+      sendError(res, 'unauthorized', 'Please sign in to save projects.');
+      return;
+    }
+
+    const input = parseProjectInput(req.body);
+    if (!input?.templateId || !input.source) {
+      sendError(res, 'invalid_request', 'The project is invalid.');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const project: Project = {
+      id: randomUUID(),
+      title: input.title || 'Untitled project',
+      templateId: input.templateId,
+      source: input.source,
+      modifications: input.modifications ?? {},
+      brandKitId: input.brandKitId || undefined,
+      userId: user?.id,
+      collaboratorIds: input.collaboratorIds,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await projectStore.save(project);
+    res.status(201).json(project);
+  } else {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+  }
+}
@@ -0,0 +1,20 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { shareStore } from '../../../server/shareStore';
+import { sendError } from '../../../server/apiErrors';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  const share = await shareStore.get(req.query.id as string);
+  if (!share) {
+    sendError(res, 'not_found', 'The shared video does not exist.');
+    return;
+  }
+
+  // The user ID is kept private, as it's the name that the user signs in with
+  const { userId, ...sharedEdit } = share;
+  res.status(200).json(sharedEdit);
+}
@@ -0,0 +1,45 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { createShareId, Share, shareStore } from '../../../server/shareStore';
+import { getPublicUrl } from '../../../server/client';
+import { getUser, isAuthEnabled } from '../../../server/auth';
+import { sendError } from '../../../server/apiErrors';
+import { isObject } from '../../../utility/isObject';
+
+// Saves the edit, and responds with the short link at which it can be viewed
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  // Shares are stored indefinitely, so only users that may create videos can create them
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+  if (isAuthEnabled() && !user) {
+    sendError(res, 'unauthorized', 'Please sign in to share videos.');
+    return;
+  }
+
+  const { title, templateId, source, modifications } = req.body ?? {};
+  if (
+    (title !== undefined && typeof title !== 'string') ||
+    typeof templateId !== 'string' ||
+    !isObject(source) ||
+    (modifications !== undefined && !isObject(modifications))
+  ) {
+    sendError(res, 'invalid_request', 'The shared video is invalid.');
+    return;
+  }
+
+  const share: Share = {
+    id: createShareId(),
+    title,
+    templateId,
+    source,
+    modifications: modifications ?? {},
+    userId: user?.id,
+    createdAt: new Date().toISOString(),
+  };
+
+  await shareStore.save(share);
+  res.status(201).json({ id: share.id, url: getPublicUrl(`/s/${share.id}`) });
+}
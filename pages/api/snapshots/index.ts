@@ -0,0 +1,86 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { findSnapshot, getSnapshotKey, isSnapshotRendering, Snapshot, startSnapshot } from '../../../server/snapshots';
+import { validateModifications, validateSource } from '../../../server/sourceValidation';
+import { getOwnHost } from '../../../server/client';
+import { getUser, isAuthEnabled } from '../../../server/auth';
+import { consumeSnapshotLimit } from '../../../server/quota';
+import { isOfflineMode } from '../../../utility/offlineMode';
+import { sendError, sendRenderError } from '../../../server/apiErrors';
+
+// How long the client should wait before asking for a snapshot that is being rendered again, in seconds
+const retryInterval = 1;
+
+// Responds with an image of the source at the provided time, used for the slide thumbnails of the editor
+// While the snapshot is being rendered, the response is HTTP 202, after which the client repeats the request
+// Snapshots don't count against the quota, as they're small and cached, but they do have their own rate limit
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  if (!process.env.CREATOMATE_API_KEY && !isOfflineMode()) {
+    sendError(res, 'not_configured', 'No API key was provided. Please refer to the README.md for instructions.');
+    return;
+  }
+
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+  if (isAuthEnabled() && !user) {
+    sendError(res, 'unauthorized', 'Please sign in to preview the slides.');
+    return;
+  }
+
+  const { source, templateId, time } = req.body ?? {};
+  const modifications = req.body?.modifications ?? {};
+  const ownHost = getOwnHost();
+  let sourceErrors: string[];
+  try {
+    sourceErrors = await validateSource(source, templateId, ownHost);
+  } catch (error) {
+    sendRenderError(res, error);
+    return;
+  }
+
+  const errors = [
+    ...sourceErrors,
+    ...validateModifications(modifications, 'modifications', ownHost, source),
+    ...(typeof time !== 'number' || !(time >= 0) ? ['time: The time must be a number of seconds.'] : []),
+  ];
+  if (errors.length > 0) {
+    sendError(res, 'validation_failed', 'The snapshot cannot be rendered.', { errors });
+    return;
+  }
+
+  const key = getSnapshotKey(source, modifications, time);
+
+  try {
+    let snapshot = await findSnapshot(key);
+
+    if (!snapshot && !isSnapshotRendering(key)) {
+      // Only snapshots that aren't cached count against the rate limit
+      const retryAfter = consumeSnapshotLimit(user?.id ?? req.socket.remoteAddress ?? '');
+      if (retryAfter !== undefined) {
+        res.setHeader('Retry-After', retryAfter);
+        sendError(res, 'rate_limited', 'Too many thumbnails have been rendered recently.', { retryAfter });
+        return;
+      }
+
+      snapshot = await startSnapshot(key, source, modifications, time);
+    }
+
+    if (snapshot) {
+      sendSnapshot(res, snapshot);
+    } else {
+      res.setHeader('Retry-After', retryInterval);
+      res.status(202).end();
+    }
+  } catch (error) {
+    sendRenderError(res, error);
+  }
+}
+
+const sendSnapshot = (res: NextApiResponse, snapshot: Snapshot) => {
+  res.setHeader('Content-Type', snapshot.contentType);
+  res.setHeader('Content-Length', snapshot.data.length);
+  res.status(200).send(snapshot.data);
+};
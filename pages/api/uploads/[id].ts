@@ -0,0 +1,88 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import fs from 'fs';
+import { pipeline } from 'stream/promises';
+import { getUploadPath, uploadStore } from '../../../server/uploadStore';
+import { canAccess, getUser, isAuthEnabled } from '../../../server/auth';
+import { sendError } from '../../../server/apiErrors';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const upload = await uploadStore.get(req.query.id as string);
+  if (!upload) {
+    sendError(res, 'not_found', 'The file does not exist.');
+    return;
+  }
+
+  if (req.method === 'DELETE') {
+    // The files of other users are treated as if they don't exist
+    const user = isAuthEnabled() ? await getUser(req) : undefined;
+    if (!canAccess(user, upload.userId)) {
+      sendError(res, 'not_found', 'The file does not exist.');
+      return;
+    }
+
+    await uploadStore.delete(upload.id);
+    await fs.promises.rm(getUploadPath(upload.id), { force: true });
+    res.status(204).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  // Files are served to anyone with the link, as Creatomate downloads them without the cookies of the user
+
+  // The file may have been removed from the disk while the upload is still listed
+  const filePath = getUploadPath(upload.id);
+  if (!(await fileExists(filePath))) {
+    sendError(res, 'not_found', 'The file does not exist.');
+    return;
+  }
+
+  res.setHeader('Content-Type', upload.mimeType);
+  res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+  res.setHeader('Accept-Ranges', 'bytes');
+
+  // Support range requests, as these are used by browsers to seek in videos
+  const range = req.headers.range?.match(/^bytes=(\d*)-(\d*)$/);
+  if (range && (range[1] || range[2])) {
+    const start = range[1] ? Number(range[1]) : Math.max(upload.size - Number(range[2]), 0);
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), upload.size - 1) : upload.size - 1;
+    if (start > end) {
+      res.setHeader('Content-Range', `bytes */${upload.size}`);
+      sendError(res, 'range_not_satisfiable', 'The requested range is outside of the file.');
+      return;
+    }
+
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${upload.size}`);
+    res.setHeader('Content-Length', end - start + 1);
+    res.status(206);
+    await sendFile(res, fs.createReadStream(filePath, { start, end }));
+    return;
+  }
+
+  res.setHeader('Content-Length', upload.size);
+  res.status(200);
+  await sendFile(res, fs.createReadStream(filePath));
+}
+
+const fileExists = async (filePath: string) => {
+  try {
+    return (await fs.promises.stat(filePath)).isFile();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
+    }
+    throw error;
+  }
+};
+
+const sendFile = async (res: NextApiResponse, stream: fs.ReadStream) => {
+  try {
+    await pipeline(stream, res);
+  } catch (error) {
+    // Reading the file failed or the browser stopped the request, after the response had already started
+    res.destroy();
+  }
+};
@@ -0,0 +1,185 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { detectMedia } from '../../../server/mediaInfo';
+import { getUploadPath, Upload, uploadLimits, uploadStore } from '../../../server/uploadStore';
+import { getPublicUrl } from '../../../server/client';
+import { canAccess, getUser, isAuthEnabled } from '../../../server/auth';
+import { sendError } from '../../../server/apiErrors';
+
+// The file is sent as the raw request body, so that no multipart parser is needed
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+const maxUploadSize = Math.max(...Object.values(uploadLimits).map((limits) => limits.maxSize));
+
+// The number of bytes at the start and end of a file that are kept to determine its type and dimensions
+// Videos may store their dimensions at the end of the file, after the frames
+const sampleSize = 1024 * 1024;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // The media library only lists the files of the user
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+
+  if (req.method === 'GET') {
+    const uploads = (await uploadStore.list()).filter((upload) => canAccess(user, upload.userId));
+    res.status(200).json(uploads.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  if (isAuthEnabled() && !user) {
+    sendError(res, 'unauthorized', 'Please sign in to upload files.');
+    return;
+  }
+
+  const fileName = decodeFileName(req.headers['x-file-name']);
+  if (fileName === undefined) {
+    sendError(res, 'validation_failed', 'The file name is not valid.');
+    return;
+  }
+
+  // The file is written to a temporary path first, and only moved in place once it's known to be valid
+  const id = randomUUID();
+  const temporaryPath = `${getUploadPath(id)}.part`;
+  await fs.promises.mkdir(path.dirname(temporaryPath), { recursive: true });
+
+  try {
+    const file = await receiveFile(req, temporaryPath, maxUploadSize);
+    if (!file) {
+      // The rest of the file isn't read, so the connection is closed once the error has been sent
+      res.setHeader('Connection', 'close');
+      res.once('finish', () => req.destroy());
+      sendError(res, 'file_too_large', 'The file is too large.');
+      return;
+    }
+
+    // The type is determined from the file contents, rather than the provided content type or file name
+    const media = detectMedia(file.sample);
+    const type =
+      media &&
+      (Object.keys(uploadLimits) as Upload['type'][]).find((type) =>
+        uploadLimits[type].mimeTypes.includes(media.mimeType),
+      );
+    if (!media || !type) {
+      sendError(
+        res,
+        'unsupported_media_type',
+        'Only JPEG, PNG, GIF, WebP, MP4, MOV, WebM, MP3, WAV, OGG and M4A files are supported.',
+      );
+      return;
+    }
+
+    const limits = uploadLimits[type];
+    if (file.size > limits.maxSize) {
+      sendError(res, 'file_too_large', `The ${type} must be smaller than ${limits.maxSize / 1024 / 1024} MB.`);
+      return;
+    }
+
+    const { minDimension = 0, maxDimension = Infinity } = limits;
+    const dimensions = [media.width, media.height].filter((dimension): dimension is number => dimension !== undefined);
+    if (dimensions.some((dimension) => dimension < minDimension || dimension > maxDimension)) {
+      sendError(
+        res,
+        'validation_failed',
+        `The ${type} must be between ${minDimension} and ${maxDimension} pixels wide and high.`,
+      );
+      return;
+    }
+
+    await fs.promises.rename(temporaryPath, getUploadPath(id));
+
+    const upload: Upload = {
+      id,
+      fileName,
+      mimeType: media.mimeType,
+      type,
+      size: file.size,
+      width: media.width,
+      height: media.height,
+      url: getPublicUrl(`/api/uploads/${id}`),
+      userId: user?.id,
+      createdAt: new Date().toISOString(),
+    };
+
+    await uploadStore.save(upload);
+    res.status(201).json(upload);
+  } finally {
+    await fs.promises.rm(temporaryPath, { force: true });
+  }
+}
+
+// Writes the request body to the file, or returns undefined when it exceeds the maximum size
+// Only the start and end of the file are kept in memory, as uploaded videos can be hundreds of megabytes
+const receiveFile = (req: NextApiRequest, filePath: string, maxSize: number) => {
+  return new Promise<{ size: number; sample: Buffer } | undefined>((resolve, reject) => {
+    const file = fs.createWriteStream(filePath);
+    let head = Buffer.alloc(0);
+    // The last chunks that together hold at least the sample size, which are only combined at the end
+    const tailChunks: Buffer[] = [];
+    let tailSize = 0;
+    let size = 0;
+
+    const handleData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        // Stop reading without closing the connection yet, so that the error can still be sent
+        req.off('data', handleData);
+        req.off('end', handleEnd);
+        req.pause();
+        file.destroy();
+        file.once('close', () => resolve(undefined));
+        return;
+      }
+
+      if (head.length < sampleSize) {
+        head = Buffer.concat([head, chunk.subarray(0, sampleSize - head.length)]);
+      }
+      tailChunks.push(chunk);
+      tailSize += chunk.length;
+      while (tailSize - tailChunks[0].length >= sampleSize) {
+        tailSize -= tailChunks.shift()!.length;
+      }
+
+      // Wait for the file to catch up when the disk is slower than the connection
+      if (!file.write(chunk)) {
+        req.pause();
+        file.once('drain', () => req.resume());
+      }
+    };
+
+    // When the start and end overlap, the sample is the entire file
+    const handleEnd = () => {
+      const tail = Buffer.concat(tailChunks).subarray(Math.max(tailSize - sampleSize, 0));
+      const overlap = Math.max(head.length + tail.length - size, 0);
+      file.end(() => resolve({ size, sample: Buffer.concat([head, tail.subarray(overlap)]) }));
+    };
+
+    req.on('data', handleData);
+    req.on('end', handleEnd);
+    req.on('error', reject);
+    file.on('error', reject);
+  });
+};
+
+// The browser encodes the name of the file, as headers can't contain every character
+// Returns undefined when the encoding isn't valid
+const decodeFileName = (header: string | string[] | undefined) => {
+  if (typeof header !== 'string') {
+    return 'Untitled';
+  }
+
+  try {
+    return decodeURIComponent(header);
+  } catch (error) {
+    return undefined;
+  }
+};
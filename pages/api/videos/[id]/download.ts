@@ -0,0 +1,52 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import { jobStore } from '../../../../server/jobStore';
+import { fetchRenderFile } from '../../../../server/renderJobs';
+import { canAccess, getUser, isAuthEnabled } from '../../../../server/auth';
+import { sendError } from '../../../../server/apiErrors';
+
+// Downloads the rendered file under a readable name, rather than the ID that Creatomate names it by
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+  const job = await jobStore.get(req.query.id as string);
+  if (!job?.url || job.status !== 'succeeded' || !canAccess(user, job.userId)) {
+    sendError(res, 'not_found', 'The render does not exist.');
+    return;
+  }
+
+  let response: Response;
+  try {
+    response = await fetchRenderFile(job.url);
+  } catch (error) {
+    sendError(res, 'service_unavailable', 'The file could not be downloaded from Creatomate.');
+    return;
+  }
+
+  if (!response.ok || !response.body) {
+    sendError(res, 'service_unavailable', 'The file could not be downloaded from Creatomate.');
+    return;
+  }
+
+  res.setHeader('Content-Type', response.headers.get('Content-Type') ?? 'application/octet-stream');
+  res.setHeader('Content-Disposition', `attachment; filename="${job.fileName}"`);
+
+  const contentLength = response.headers.get('Content-Length');
+  if (contentLength) {
+    res.setHeader('Content-Length', contentLength);
+  }
+
+  res.status(200);
+  try {
+    await pipeline(Readable.fromWeb(response.body as ReadableStream<Uint8Array>), res);
+  } catch (error) {
+    // The download was interrupted, by either Creatomate or the browser, after the response had already started
+    res.destroy();
+  }
+}
@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { jobStore } from '../../../../server/jobStore';
+import { refreshJob } from '../../../../server/renderJobs';
+import { canAccess, getUser, isAuthEnabled } from '../../../../server/auth';
+import { sendError } from '../../../../server/apiErrors';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  // The renders of other users are treated as if they don't exist
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+  const job = await jobStore.get(req.query.id as string);
+  if (!job || !canAccess(user, job.userId)) {
+    sendError(res, 'not_found', 'The render does not exist.');
+    return;
+  }
+
+  if (req.method === 'GET') {
+    res.status(200).json(await refreshJob(job));
+  } else if (req.method === 'DELETE') {
+    // Only removes the render from the history, the file itself is kept by Creatomate
+    await jobStore.delete(job.id);
+    res.status(204).end();
+  } else {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+  }
+}
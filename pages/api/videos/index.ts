@@ -0,0 +1,50 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { authorizeRender, refreshJob, startJob } from '../../../server/renderJobs';
+import { createRenderOptions } from '../../../server/renderOptions';
+import { validateModifications } from '../../../server/sourceValidation';
+import { jobStore, summarizeJob } from '../../../server/jobStore';
+import { getDownloadFileName } from '../../../utility/outputOptions';
+import { canAccess, getUser, isAuthEnabled } from '../../../server/auth';
+import { sendError, sendRenderError } from '../../../server/apiErrors';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method === 'GET') {
+    // The render history of the user, most recent first, with the latest status of the renders that haven't finished yet
+    const user = isAuthEnabled() ? await getUser(req) : undefined;
+    const userJobs = (await jobStore.list()).filter((job) => canAccess(user, job.userId));
+    const jobs = await Promise.all(userJobs.map(refreshJob));
+    res.status(200).json(jobs.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(summarizeJob));
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  // The modifications are only recorded to restore the editor, as they are already applied to the source
+  const modifications = req.body.modifications ?? {};
+
+  const request = await authorizeRender(req, res, 1, (ownHost) =>
+    validateModifications(modifications, 'modifications', ownHost, req.body.source),
+  );
+  if (!request) {
+    return;
+  }
+
+  try {
+    const title = typeof req.body.title === 'string' ? req.body.title : undefined;
+    const job = await startJob(
+      request,
+      createRenderOptions(request.source, request.output),
+      getDownloadFileName(title, request.output.format, new Date()),
+      title,
+      modifications,
+    );
+
+    // The client polls GET /api/videos/[id] until the job has finished
+    res.status(202).json(job);
+  } catch (error) {
+    sendRenderError(res, error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { applyRender, jobStore } from '../../../server/jobStore';
+import { client } from '../../../server/client';
+import { sendError, sendRenderError } from '../../../server/apiErrors';
+
+// Receives the render once it has finished
+// Anyone could call this route, so the payload is only used to look up the render, which is then fetched from Creatomate
+// Refer to: https://creatomate.com/docs/api/rest-api/post-v1-renders
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    sendError(res, 'method_not_allowed', 'This method is not supported.');
+    return;
+  }
+
+  if (process.env.WEBHOOK_SECRET && req.query.secret !== process.env.WEBHOOK_SECRET) {
+    sendError(res, 'unauthorized', 'The webhook secret is incorrect.');
+    return;
+  }
+
+  const job = typeof req.body?.id === 'string' ? await jobStore.get(req.body.id) : undefined;
+  if (!job) {
+    sendError(res, 'not_found', 'The render does not exist.');
+    return;
+  }
+
+  try {
+    await jobStore.save(applyRender(job, await client.fetchRender(job.id)));
+  } catch (error) {
+    sendRenderError(res, error);
+    return;
+  }
+
+  res.status(204).end();
+}
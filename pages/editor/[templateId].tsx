@@ -0,0 +1,24 @@
+import Head from 'next/head';
+import dynamic from 'next/dynamic';
+import { useRouter } from 'next/router';
+
+const App = dynamic(() => import('../../components/App'), { ssr: false });
+
+// Opens the editor for the template chosen in the template gallery
+export default function Editor() {
+  const router = useRouter();
+
+  return (
+    <div>
+      <Head>
+        <title>Video Preview Demo</title>
+        <link rel='icon' href='/favicon.ico' />
+      </Head>
+
+      {/* Wait for the query parameters, as the editor is set up only once */}
+      {router.isReady && (
+        <App templateId={router.query.templateId as string} projectId={router.query.project as string | undefined} />
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 import Head from 'next/head';
 import dynamic from 'next/dynamic';
+import { useRouter } from 'next/router';
 
 const App = dynamic(() => import('../components/App'), { ssr: false });
 
 export default function Home() {
+  const router = useRouter();
+
   return (
     <div>
       <Head>
@@ -11,7 +14,13 @@ export default function Home() {
         <link rel='icon' href='/favicon.ico' />
       </Head>
 
-      <App />
+      {/* Wait for the query parameters, as the editor is set up only once */}
+      {router.isReady && (
+        <App
+          projectId={router.query.project as string | undefined}
+          renderId={router.query.render as string | undefined}
+        />
+      )}
     </div>
   );
 }
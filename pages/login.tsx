@@ -0,0 +1,15 @@
+import Head from 'next/head';
+import { LoginForm } from '../components/LoginForm';
+
+export default function Login() {
+  return (
+    <div>
+      <Head>
+        <title>Sign in - Video Preview Demo</title>
+        <link rel='icon' href='/favicon.ico' />
+      </Head>
+
+      <LoginForm />
+    </div>
+  );
+}
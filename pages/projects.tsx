@@ -0,0 +1,15 @@
+import Head from 'next/head';
+import { ProjectList } from '../components/ProjectList';
+
+export default function Projects() {
+  return (
+    <div>
+      <Head>
+        <title>Projects - Video Preview Demo</title>
+        <link rel='icon' href='/favicon.ico' />
+      </Head>
+
+      <ProjectList />
+    </div>
+  );
+}
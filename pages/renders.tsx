@@ -0,0 +1,15 @@
+import Head from 'next/head';
+import { RenderHistory } from '../components/RenderHistory';
+
+export default function Renders() {
+  return (
+    <div>
+      <Head>
+        <title>Renders - Video Preview Demo</title>
+        <link rel='icon' href='/favicon.ico' />
+      </Head>
+
+      <RenderHistory />
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import Head from 'next/head';
+import dynamic from 'next/dynamic';
+import { useRouter } from 'next/router';
+
+const App = dynamic(() => import('../../components/App'), { ssr: false });
+
+// The short link of a shared edit, which is shown in read-only mode
+export default function SharedPreview() {
+  const router = useRouter();
+
+  return (
+    <div>
+      <Head>
+        <title>Shared Preview - Video Preview Demo</title>
+        <link rel='icon' href='/favicon.ico' />
+      </Head>
+
+      {router.isReady && <App shareId={router.query.id as string} />}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import Head from 'next/head';
+import { TemplateGallery } from '../components/TemplateGallery';
+
+export default function Templates() {
+  return (
+    <div>
+      <Head>
+        <title>Templates - Video Preview Demo</title>
+        <link rel='icon' href='/favicon.ico' />
+      </Head>
+
+      <TemplateGallery />
+    </div>
+  );
+}
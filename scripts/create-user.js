@@ -0,0 +1,29 @@
+// Adds a user to the local user file, or updates their password
+// Usage: node scripts/create-user.js <username> <password> [name]
+const fs = require('fs');
+const path = require('path');
+const { randomBytes, scryptSync } = require('crypto');
+
+const [username, password, name] = process.argv.slice(2);
+if (!username || !password) {
+  console.error('Usage: node scripts/create-user.js <username> <password> [name]');
+  process.exit(1);
+}
+
+const filePath = process.env.USERS_FILE ?? path.join(process.env.DATA_DIR ?? '.data', 'users.json');
+const users = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : [];
+
+// The format that verifyPassword() in server/auth.ts expects
+const salt = randomBytes(16).toString('hex');
+const passwordHash = `${salt}:${scryptSync(password, salt, 64).toString('hex')}`;
+
+const existingUser = users.find((user) => user.id === username);
+if (existingUser) {
+  existingUser.passwordHash = passwordHash;
+} else {
+  users.push({ id: username, name: name ?? username, passwordHash });
+}
+
+fs.mkdirSync(path.dirname(filePath), { recursive: true });
+fs.writeFileSync(filePath, JSON.stringify(users, null, 2));
+console.log(`${existingUser ? 'Updated' : 'Created'} user '${username}' in ${filePath}`);
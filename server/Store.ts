@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getGlobal } from './globals';
+
+// A collection of items that can be persisted in different ways
+// Implement this interface to store items in a database instead
+export interface Store<T extends { id: string }> {
+  list(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  save(item: T): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Keeps the items in memory, they are lost when the server restarts
+export class MemoryStore<T extends { id: string }> implements Store<T> {
+  private readonly items = new Map<string, T>();
+
+  async list() {
+    return Array.from(this.items.values());
+  }
+
+  async get(id: string) {
+    return this.items.get(id);
+  }
+
+  async save(item: T) {
+    this.items.set(item.id, item);
+  }
+
+  async delete(id: string) {
+    return this.items.delete(id);
+  }
+}
+
+// Keeps the items in a JSON file in the data directory
+export class FileStore<T extends { id: string }> implements Store<T> {
+  private readonly filePath: string;
+
+  // Writes are queued, so that concurrent requests don't overwrite each other's changes
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(name: string) {
+    this.filePath = path.join(getDataDirectory(), `${name}.json`);
+  }
+
+  async list() {
+    return Object.values(await this.read());
+  }
+
+  async get(id: string) {
+    return (await this.read())[id];
+  }
+
+  save(item: T) {
+    return this.update((items) => {
+      items[item.id] = item;
+    });
+  }
+
+  async delete(id: string) {
+    let deleted = false;
+    await this.update((items) => {
+      deleted = id in items;
+      delete items[id];
+    });
+    return deleted;
+  }
+
+  private async read(): Promise<Record<string, T>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private update(mutate: (items: Record<string, T>) => void) {
+    const result = this.queue.then(async () => {
+      const items = await this.read();
+      mutate(items);
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(items, null, 2));
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// The directory in which local data such as stores and uploads are kept, configurable with the DATA_DIR env variable
+export function getDataDirectory() {
+  return path.resolve(process.env.DATA_DIR ?? '.data');
+}
+
+// Creates a store of the type configured with the STORE env variable, either 'file' (default) or 'memory'
+export function createStore<T extends { id: string }>(name: string): Store<T> {
+  if (process.env.STORE === 'memory') {
+    return getGlobal(`memoryStore:${name}`, () => new MemoryStore<T>());
+  }
+
+  return new FileStore<T>(name);
+}
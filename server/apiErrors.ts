@@ -0,0 +1,33 @@
+import { NextApiResponse } from 'next';
+import {
+  BadRequestError,
+  ConnectionError,
+  InsufficientCreditsError,
+  InvalidApiKeyError,
+  RateLimitExceededError,
+  TimeoutError,
+} from 'creatomate';
+import { ApiErrorBody, ApiErrorCode, apiErrorStatuses } from '../utility/apiErrors';
+
+// Sends an error response in the format of utility/apiErrors.ts, with the HTTP status that belongs to the code
+export function sendError(res: NextApiResponse, code: ApiErrorCode, message: string, details?: any) {
+  const body: ApiErrorBody = { error: { code, message, details } };
+  res.status(apiErrorStatuses[code]).json(body);
+}
+
+// Translates an error of the Creatomate client into an error response
+export function sendRenderError(res: NextApiResponse, error: unknown) {
+  if (error instanceof BadRequestError) {
+    sendError(res, 'invalid_request', error.message || 'Creatomate did not accept the video.');
+  } else if (error instanceof InvalidApiKeyError) {
+    sendError(res, 'not_configured', 'The API key is invalid. Please refer to the README.md for instructions.');
+  } else if (error instanceof InsufficientCreditsError) {
+    sendError(res, 'insufficient_credits', 'There are not enough credits left in the Creatomate account.');
+  } else if (error instanceof RateLimitExceededError) {
+    sendError(res, 'rate_limited', 'Creatomate is receiving too many renders, please try again in a moment.');
+  } else if (error instanceof ConnectionError || error instanceof TimeoutError) {
+    sendError(res, 'service_unavailable', 'Creatomate could not be reached, please try again.');
+  } else {
+    sendError(res, 'render_failed', (error as Error)?.message || 'The render could not be started.');
+  }
+}
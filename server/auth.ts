@@ -0,0 +1,123 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { createHmac, scryptSync, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDataDirectory } from './Store';
+
+export interface User {
+  id: string;
+  name: string;
+  // Created with scripts/create-user.js, in the format 'salt:hash' using scrypt
+  passwordHash: string;
+  // Overrides of the limits in config/renderLimits.json for this user
+  rendersPerHour?: number;
+  monthlyRenderMinutes?: number;
+}
+
+// Looks up users, implement this interface to authenticate against another user directory
+export interface AuthProvider {
+  findUser(id: string): Promise<User | undefined>;
+  verifyCredentials(username: string, password: string): Promise<User | undefined>;
+}
+
+// Reads the users from a JSON file containing an array of users
+export class LocalUserProvider implements AuthProvider {
+  constructor(private readonly filePath: string) {}
+
+  async findUser(id: string) {
+    return (await this.readUsers()).find((user) => user.id === id);
+  }
+
+  async verifyCredentials(username: string, password: string) {
+    const user = (await this.readUsers()).find((user) => user.id === username);
+    return user && verifyPassword(password, user.passwordHash) ? user : undefined;
+  }
+
+  private async readUsers(): Promise<User[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+export const authProvider: AuthProvider = new LocalUserProvider(
+  process.env.USERS_FILE ?? path.join(getDataDirectory(), 'users.json'),
+);
+
+// Authentication is enabled by setting the AUTH_SECRET env variable, which is used to sign the session tokens
+export function isAuthEnabled() {
+  return !!process.env.AUTH_SECRET;
+}
+
+const sessionCookie = 'session';
+const sessionDuration = 30 * 24 * 60 * 60;
+
+// Returns whether the user may access something created by the user with the provided ID, such as a render
+// Everything is shared when authentication is disabled, otherwise users only see what they've created themselves
+export function canAccess(user: User | undefined, ownerId: string | undefined) {
+  return !isAuthEnabled() || (!!user && user.id === ownerId);
+}
+
+export function createSessionToken(userId: string) {
+  const payload = Buffer.from(
+    JSON.stringify({ sub: userId, exp: Math.floor(Date.now() / 1000) + sessionDuration }),
+  ).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// Returns the user ID of a valid and unexpired token
+export function verifySessionToken(token: string) {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return undefined;
+  }
+
+  const expectedSignature = Buffer.from(sign(payload));
+  const actualSignature = Buffer.from(signature);
+  if (expectedSignature.length !== actualSignature.length || !timingSafeEqual(expectedSignature, actualSignature)) {
+    return undefined;
+  }
+
+  try {
+    const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof sub === 'string' && exp > Date.now() / 1000 ? sub : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Returns the user making the request, from either the session cookie or an 'Authorization: Bearer' header
+export async function getUser(req: IncomingMessage & { cookies?: Partial<Record<string, string>> }) {
+  const authorization = req.headers.authorization;
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : req.cookies?.[sessionCookie];
+  const userId = token && verifySessionToken(token);
+  return userId ? await authProvider.findUser(userId) : undefined;
+}
+
+export function setSessionCookie(res: ServerResponse, token: string | undefined) {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  res.setHeader(
+    'Set-Cookie',
+    `${sessionCookie}=${token ?? ''}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${token ? sessionDuration : 0}${secure}`,
+  );
+}
+
+export function verifyPassword(password: string, passwordHash: string) {
+  const [salt, hash] = passwordHash.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expectedHash = Buffer.from(hash, 'hex');
+  const actualHash = scryptSync(password, salt, expectedHash.length);
+  return timingSafeEqual(expectedHash, actualHash);
+}
+
+const sign = (payload: string) => {
+  return createHmac('sha256', process.env.AUTH_SECRET!).update(payload).digest('base64url');
+};
@@ -0,0 +1,39 @@
+import { createStore } from './Store';
+import { jobStore } from './jobStore';
+import { refreshJob } from './renderJobs';
+
+// Renders of the same source with different modifications, one for each row of a data file
+export interface Batch {
+  id: string;
+  title: string;
+  userId?: string;
+  rows: BatchRow[];
+  createdAt: string;
+}
+
+export interface BatchRow {
+  // The render job of the row, or undefined when it could not be started
+  jobId?: string;
+  errorMessage?: string;
+}
+
+export const batchStore = createStore<Batch>('batches');
+
+// The batch as returned by the API, with the latest status of each row
+export async function describeBatch(batch: Batch) {
+  const rows = await Promise.all(
+    batch.rows.map(async (row, index) => {
+      const job = row.jobId ? await jobStore.get(row.jobId) : undefined;
+      const updatedJob = job && (await refreshJob(job));
+      return {
+        index,
+        status: updatedJob?.status ?? 'failed',
+        errorMessage: updatedJob?.errorMessage ?? row.errorMessage,
+        downloadUrl:
+          updatedJob?.status === 'succeeded' ? `/api/videos/${encodeURIComponent(updatedJob.id)}/download` : undefined,
+      };
+    }),
+  );
+
+  return { id: batch.id, title: batch.title, createdAt: batch.createdAt, rows };
+}
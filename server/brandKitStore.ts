@@ -0,0 +1,28 @@
+import { createStore } from './Store';
+import { BrandKitStyle, validateBrandKitStyle } from '../utility/brandKit';
+
+// A named set of fonts, colors and a logo, that can be applied to any project
+export interface BrandKit extends BrandKitStyle {
+  id: string;
+  name: string;
+  // The user who created the kit, when authentication is enabled
+  userId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const brandKitStore = createStore<BrandKit>('brandKits');
+
+// Returns the name and style of the request body, or undefined when they are invalid
+export function parseBrandKitInput(body: any): (BrandKitStyle & { name: string }) | undefined {
+  if (typeof body !== 'object' || body === null || typeof body.name !== 'string') {
+    return undefined;
+  }
+
+  if (validateBrandKitStyle(body).length > 0) {
+    return undefined;
+  }
+
+  const { name, primaryColor, secondaryColor, fontFamily, fontWeight, logoUrl, logoPosition } = body;
+  return { name, primaryColor, secondaryColor, fontFamily, fontWeight, logoUrl, logoPosition };
+}
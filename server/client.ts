@@ -0,0 +1,38 @@
+import { Client } from 'creatomate';
+import { isOfflineMode } from '../utility/offlineMode';
+import { OfflineRenderClient } from './offlineRenderClient';
+
+// The part of the Creatomate client that the app depends on, implemented by either the client or the offline client
+export type RenderClient = Pick<Client, 'startRender' | 'fetchRender'>;
+
+export const client: RenderClient = isOfflineMode()
+  ? new OfflineRenderClient()
+  : new Client(process.env.CREATOMATE_API_KEY!);
+
+// The URL Creatomate notifies when a render has finished
+// This requires the app to be publicly reachable, as configured with the PUBLIC_URL env variable
+// Without it, the status of the render is polled through GET /api/videos/[id] instead
+export function getWebhookUrl() {
+  if (!process.env.PUBLIC_URL || isOfflineMode()) {
+    return undefined;
+  }
+
+  const url = new URL('/api/webhooks/render', process.env.PUBLIC_URL);
+  if (process.env.WEBHOOK_SECRET) {
+    url.searchParams.set('secret', process.env.WEBHOOK_SECRET);
+  }
+
+  return url.toString();
+}
+
+// Returns the URL of a path in this app, which is absolute when PUBLIC_URL is set
+// Otherwise the path is returned for the browser to resolve, as the Host header of a request can be set to anything
+export function getPublicUrl(pathname: string) {
+  return process.env.PUBLIC_URL ? new URL(pathname, process.env.PUBLIC_URL).toString() : pathname;
+}
+
+// The host name of this app, from which assets such as uploads may be loaded
+// It's only known when PUBLIC_URL is set, without it Creatomate couldn't load the assets anyway
+export function getOwnHost() {
+  return process.env.PUBLIC_URL ? new URL(process.env.PUBLIC_URL).hostname : undefined;
+}
@@ -0,0 +1,187 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { randomUUID } from 'crypto';
+import { acceptWebSocket, rejectWebSocket, WebSocketConnection } from './webSocket';
+import { getUser, isAuthEnabled } from './auth';
+import { canAccessProject, projectStore } from './projectStore';
+import { getGlobal } from './globals';
+import { applyChange, ClientMessage, isChange, Peer, ServerMessage } from '../utility/collaboration';
+import type { EditSnapshot } from '../utility/editorStore';
+import { isObject } from '../utility/isObject';
+
+// The path at which the browsers connect to a session, e.g. /api/collaboration/socket?project=<id>
+export const socketPath = '/api/collaboration/socket';
+
+// The colors that the people in a session are shown in, assigned in the order they join
+const peerColors = ['#e67e22', '#9b59b6', '#1abc9c', '#e74c3c', '#3498db', '#f1c40f'];
+
+interface Client extends Peer {
+  connection: WebSocketConnection;
+  // Set once the client has sent its state
+  hasJoined: boolean;
+}
+
+// The people editing a project, and the state that all their changes have been applied to
+interface Session {
+  clients: Map<string, Client>;
+  state?: EditSnapshot;
+  joinCount: number;
+}
+
+// The sockets of API requests refer to the HTTP server of Next.js, which isn't part of the Node.js types
+declare module 'net' {
+  interface Socket {
+    server?: import('http').Server;
+  }
+}
+
+// Sessions are kept globally, so that they survive hot reloading during development
+const sessions = getGlobal('collaborationSessions', () => new Map<string, Session>());
+
+// The servers that handle the connections already, which is also kept when this module is reloaded
+const attachedServers = getGlobal('collaborationServers', () => new WeakSet<Server>());
+
+// Handles the WebSocket connections of the collaboration sessions on the server of the Next.js app
+// Next.js doesn't route WebSocket requests to API routes, so the upgrade requests are handled on the server itself
+export function attachCollaborationServer(server: Server) {
+  if (attachedServers.has(server)) {
+    return;
+  }
+
+  attachedServers.add(server);
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex) => {
+    // Other upgrade requests, such as those of hot reloading, are left to Next.js
+    if (new URL(req.url ?? '/', 'http://localhost').pathname === socketPath) {
+      connect(req, socket).catch(() => socket.destroy());
+    }
+  });
+}
+
+const connect = async (req: IncomingMessage, socket: Duplex) => {
+  // Browsers send the cookies of this app along with connections opened by any site, so only this app may connect
+  if (!isOwnOrigin(req)) {
+    rejectWebSocket(socket, 403, 'Forbidden');
+    return;
+  }
+
+  const user = isAuthEnabled() ? await getUser(withCookies(req)) : undefined;
+  if (isAuthEnabled() && !user) {
+    rejectWebSocket(socket, 401, 'Unauthorized');
+    return;
+  }
+
+  const projectId = new URL(req.url ?? '/', 'http://localhost').searchParams.get('project');
+  const project = projectId ? await projectStore.get(projectId) : undefined;
+  if (!projectId || !project || !canAccessProject(user, project)) {
+    rejectWebSocket(socket, 404, 'Not Found');
+    return;
+  }
+
+  const connection = acceptWebSocket(req, socket);
+  if (!connection) {
+    return;
+  }
+
+  let session = sessions.get(projectId);
+  if (!session) {
+    session = { clients: new Map(), joinCount: 0 };
+    sessions.set(projectId, session);
+  }
+
+  const client: Client = {
+    id: randomUUID(),
+    name: user?.name ?? `Guest ${session.joinCount + 1}`,
+    color: peerColors[session.joinCount % peerColors.length],
+    connection,
+    hasJoined: false,
+  };
+  session.joinCount++;
+  session.clients.set(client.id, client);
+
+  const currentSession = session;
+  connection.onMessage = (message) => {
+    try {
+      handleMessage(currentSession, client, JSON.parse(message));
+    } catch (error) {
+      connection.close(1007);
+    }
+  };
+
+  connection.onClose = () => {
+    currentSession.clients.delete(client.id);
+
+    // The state of an abandoned session is discarded, the project has been saved by the clients
+    if (currentSession.clients.size === 0) {
+      sessions.delete(projectId);
+    } else {
+      sendPresence(currentSession);
+    }
+  };
+};
+
+const handleMessage = (session: Session, client: Client, message: ClientMessage) => {
+  if (message.type === 'join' && !client.hasJoined) {
+    if (!isObject(message.source) || !isObject(message.modifications)) {
+      client.connection.close(1007);
+      return;
+    }
+
+    // The first client to join determines the state of the session, the others are brought up to date with it
+    session.state ??= { source: message.source, modifications: message.modifications };
+    client.hasJoined = true;
+    send(client, { type: 'welcome', clientId: client.id, ...session.state });
+    sendPresence(session);
+  } else if (message.type === 'change' && client.hasJoined && session.state && isChange(message.change)) {
+    // Changes are applied in the order they arrive, which is the order every client applies them in
+    session.state = applyChange(session.state, message.change);
+    broadcast(session, { type: 'change', clientId: client.id, change: message.change });
+  } else if (message.type === 'focus') {
+    client.elementName = typeof message.elementName === 'string' ? message.elementName : undefined;
+    sendPresence(session);
+  }
+};
+
+const sendPresence = (session: Session) => {
+  const peers: Peer[] = Array.from(session.clients.values())
+    .filter((client) => client.hasJoined)
+    .map(({ id, name, color, elementName }) => ({ id, name, color, elementName }));
+  broadcast(session, { type: 'presence', peers });
+};
+
+const broadcast = (session: Session, message: ServerMessage) => {
+  session.clients.forEach((client) => {
+    if (client.hasJoined) {
+      send(client, message);
+    }
+  });
+};
+
+const send = (client: Client, message: ServerMessage) => {
+  client.connection.send(JSON.stringify(message));
+};
+
+// Compares the origin of the page that opened the connection with PUBLIC_URL, or otherwise with the requested host
+// Unlike the Host header of other requests, browsers don't let pages change either header
+const isOwnOrigin = (req: IncomingMessage) => {
+  try {
+    const origin = new URL(req.headers.origin ?? '');
+    return process.env.PUBLIC_URL
+      ? origin.origin === new URL(process.env.PUBLIC_URL).origin
+      : origin.host === req.headers.host;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Upgrade requests don't pass through Next.js, so the cookies that identify the user haven't been parsed yet
+const withCookies = (req: IncomingMessage) => {
+  const cookies: Record<string, string> = {};
+  for (const cookie of (req.headers.cookie ?? '').split(';')) {
+    const separatorIndex = cookie.indexOf('=');
+    if (separatorIndex !== -1) {
+      cookies[cookie.slice(0, separatorIndex).trim()] = decodeURIComponent(cookie.slice(separatorIndex + 1).trim());
+    }
+  }
+
+  return Object.assign(req, { cookies });
+};
@@ -0,0 +1,17 @@
+// Values that are kept on the global object, so that they survive hot reloading during development
+// Next.js evaluates the server modules again when they change, which would otherwise lose their state
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __serverGlobals: Record<string, unknown> | undefined;
+}
+
+// Returns the global value with the key, which is created the first time it's requested
+export function getGlobal<T>(key: string, create: () => T): T {
+  const globals = (globalThis.__serverGlobals ??= {});
+  if (!(key in globals)) {
+    globals[key] = create();
+  }
+
+  return globals[key] as T;
+}
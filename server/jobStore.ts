@@ -0,0 +1,51 @@
+import { Render, RenderStatus } from 'creatomate';
+import { OutputFormat } from '../utility/outputOptions';
+import { createStore } from './Store';
+
+// A render that was started through POST /api/videos
+export interface RenderJob {
+  // Same as the ID of the render at Creatomate
+  id: string;
+  status: RenderStatus;
+  outputFormat: OutputFormat;
+  // The name the file is downloaded as through GET /api/videos/[id]/download
+  fileName: string;
+  // The user that started the render, when authentication is enabled
+  userId?: string;
+  // The editor state the render was started from, so that it can be opened again from the render history
+  title?: string;
+  templateId?: string;
+  source?: Record<string, any>;
+  modifications?: Record<string, any>;
+  // The duration in seconds, estimated from the source until the render has finished
+  duration?: number;
+  url?: string;
+  snapshotUrl?: string;
+  errorMessage?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const jobStore = createStore<RenderJob>('jobs');
+
+// The job as listed in the render history, without the source and modifications as these can be large
+export function summarizeJob({ source, modifications, ...summary }: RenderJob) {
+  return summary;
+}
+
+export function isFinished(job: RenderJob) {
+  return job.status === 'succeeded' || job.status === 'failed';
+}
+
+// Updates the job with the latest state of the render
+export function applyRender(job: RenderJob, render: Partial<Render>): RenderJob {
+  return {
+    ...job,
+    status: render.status ?? job.status,
+    url: render.url ?? job.url,
+    snapshotUrl: render.snapshotUrl ?? job.snapshotUrl,
+    duration: render.duration ?? job.duration,
+    errorMessage: render.errorMessage ?? job.errorMessage,
+    updatedAt: new Date().toISOString(),
+  };
+}
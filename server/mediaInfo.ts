@@ -0,0 +1,118 @@
+// The properties of an uploaded file as determined from its contents, rather than trusting the file name or client
+export interface MediaInfo {
+  mimeType: string;
+  width?: number;
+  height?: number;
+}
+
+export function detectMedia(buffer: Buffer): MediaInfo | undefined {
+  if (buffer.length < 32) {
+    return undefined;
+  }
+
+  // PNG: https://www.w3.org/TR/png/#5PNG-file-signature
+  if (buffer.readUInt32BE(0) === 0x89504e47) {
+    return { mimeType: 'image/png', width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  // GIF: https://www.w3.org/Graphics/GIF/spec-gif89a.txt
+  if (buffer.toString('ascii', 0, 4) === 'GIF8') {
+    return { mimeType: 'image/gif', width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+
+  // JPEG
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return { mimeType: 'image/jpeg', ...readJpegSize(buffer) };
+  }
+
+  // WebP: https://developers.google.com/speed/webp/docs/riff_container
+  if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return { mimeType: 'image/webp', ...readWebpSize(buffer) };
+  }
+
+  // MP4 and QuickTime: https://developer.apple.com/documentation/quicktime-file-format
+  if (buffer.toString('ascii', 4, 8) === 'ftyp') {
+    if (buffer.toString('ascii', 8, 12) === 'M4A ') {
+      return { mimeType: 'audio/mp4' };
+    }
+
+    const mimeType = buffer.toString('ascii', 8, 12) === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+    return { mimeType, ...readMp4Size(buffer) };
+  }
+
+  // WebM (EBML header)
+  if (buffer.readUInt32BE(0) === 0x1a45dfa3) {
+    return { mimeType: 'video/webm' };
+  }
+
+  // MP3, either with an ID3 tag or starting with an MPEG audio frame: http://www.mp3-tech.org/programmer/frame_header.html
+  if (buffer.toString('ascii', 0, 3) === 'ID3' || (buffer[0] === 0xff && (buffer[1] & 0xe6) === 0xe2)) {
+    return { mimeType: 'audio/mpeg' };
+  }
+
+  // WAV: http://soundfile.sapp.org/doc/WaveFormat/
+  if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WAVE') {
+    return { mimeType: 'audio/wav' };
+  }
+
+  // Ogg: https://www.xiph.org/ogg/doc/framing.html
+  if (buffer.toString('ascii', 0, 4) === 'OggS') {
+    return { mimeType: 'audio/ogg' };
+  }
+
+  return undefined;
+}
+
+const readJpegSize = (buffer: Buffer) => {
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return {};
+    }
+
+    // The start-of-frame markers contain the dimensions, except for DHT (C4), JPG (C8) and DAC (CC)
+    const marker = buffer[offset + 1];
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+    }
+
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+
+  return {};
+};
+
+const readWebpSize = (buffer: Buffer) => {
+  switch (buffer.toString('ascii', 12, 16)) {
+    case 'VP8X':
+      return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+    case 'VP8 ':
+      return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+    case 'VP8L': {
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    default:
+      return {};
+  }
+};
+
+// Uses the largest track header (tkhd) box, as audio tracks have no dimensions
+const readMp4Size = (buffer: Buffer) => {
+  let width = 0;
+  let height = 0;
+
+  for (let offset = buffer.indexOf('tkhd'); offset !== -1; offset = buffer.indexOf('tkhd', offset + 4)) {
+    const version = buffer[offset + 4];
+    const sizeOffset = offset + 4 + (version === 1 ? 88 : 76);
+    if (sizeOffset + 8 > buffer.length) {
+      break;
+    }
+
+    // The dimensions are stored as 16.16 fixed-point numbers
+    width = Math.max(width, buffer.readUInt32BE(sizeOffset) >>> 16);
+    height = Math.max(height, buffer.readUInt32BE(sizeOffset + 4) >>> 16);
+  }
+
+  return width && height ? { width, height } : {};
+};
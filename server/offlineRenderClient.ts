@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { pathToFileURL } from 'url';
+import { Render, RenderOptions } from 'creatomate';
+import { getDataDirectory } from './Store';
+import { getGlobal } from './globals';
+import type { RenderClient } from './client';
+
+// The renders are kept globally, so that they can still be fetched after hot reloading during development
+const renders = getGlobal('offlineRenders', () => new Map<string, Render>());
+
+// Simulates Creatomate's render API in offline mode, see utility/offlineMode.ts
+// Instead of a video, a placeholder file describing the render is written to the data directory
+export class OfflineRenderClient implements RenderClient {
+  async startRender(options: RenderOptions): Promise<Render[]> {
+    const id = randomUUID();
+    const outputFormat = options.outputFormat ?? 'mp4';
+    const source = options.source ?? {};
+
+    const filePath = path.join(getOfflineRenderDirectory(), `${id}.${outputFormat}`);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify({ placeholder: true, id, ...options }, null, 2));
+
+    const render: Render = {
+      id,
+      status: 'planned',
+      url: pathToFileURL(filePath).toString(),
+      outputFormat,
+      renderScale: options.renderScale ?? 1,
+      width: source.width,
+      height: source.height,
+      modifications: options.modifications,
+    };
+
+    renders.set(id, { ...render, status: 'succeeded' });
+
+    // Like Creatomate, the render is planned first, and has finished by the time it's fetched
+    return [render];
+  }
+
+  async fetchRender(id: string): Promise<Render> {
+    const render = renders.get(id);
+    if (!render) {
+      throw new Error(`The render ${id} doesn't exist.`);
+    }
+
+    return render;
+  }
+}
+
+// The directory that the placeholder files are written to, the only files that are served as renders
+export function getOfflineRenderDirectory() {
+  return path.join(getDataDirectory(), 'renders');
+}
@@ -0,0 +1,55 @@
+import { createStore } from './Store';
+import { canAccess, User } from './auth';
+import { isObject } from '../utility/isObject';
+
+// A saved editing session, from which both the preview and the form can be restored
+export interface Project {
+  id: string;
+  title: string;
+  templateId: string;
+  // The full source of the video, including the structural changes such as added slides
+  // Refer to: https://creatomate.com/docs/json/introduction
+  source: Record<string, any>;
+  // Refer to: https://creatomate.com/docs/api/rest-api/the-modifications-object
+  modifications: Record<string, any>;
+  // The saved brand kit that was last applied to the video, if any
+  brandKitId?: string;
+  // When authentication is enabled, the user who created the project, and the other users who may edit it
+  userId?: string;
+  collaboratorIds?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const projectStore = createStore<Project>('projects');
+
+// Returns whether the user may open and edit the project, either as its owner or as one of its collaborators
+export function canAccessProject(user: User | undefined, project: Project) {
+  return canAccess(user, project.userId) || (!!user && !!project.collaboratorIds?.includes(user.id));
+}
+
+// Returns the editable properties of the request body, or undefined when they are invalid
+export function parseProjectInput(
+  body: any,
+):
+  | Partial<Pick<Project, 'title' | 'templateId' | 'source' | 'modifications' | 'brandKitId' | 'collaboratorIds'>>
+  | undefined {
+  if (typeof body !== 'object' || body === null) {
+    return undefined;
+  }
+
+  const { title, templateId, source, modifications, brandKitId, collaboratorIds } = body;
+  if (
+    (title !== undefined && typeof title !== 'string') ||
+    (templateId !== undefined && typeof templateId !== 'string') ||
+    (source !== undefined && !isObject(source)) ||
+    (modifications !== undefined && !isObject(modifications)) ||
+    (brandKitId !== undefined && typeof brandKitId !== 'string') ||
+    (collaboratorIds !== undefined &&
+      (!Array.isArray(collaboratorIds) || !collaboratorIds.every((id) => typeof id === 'string')))
+  ) {
+    return undefined;
+  }
+
+  return { title, templateId, source, modifications, brandKitId, collaboratorIds };
+}
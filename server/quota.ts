@@ -0,0 +1,63 @@
+import renderLimits from '../config/renderLimits.json';
+import { User } from './auth';
+import { jobStore } from './jobStore';
+import { getGlobal } from './globals';
+
+export interface Quota {
+  usedMinutes: number;
+  limitMinutes: number;
+  remainingMinutes: number;
+}
+
+// Returns the render minutes the user has used in the current calendar month
+export async function getQuota(user: User): Promise<Quota> {
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+
+  // Failed renders don't count towards the quota
+  const jobs = await jobStore.list();
+  const usedSeconds = jobs
+    .filter((job) => job.userId === user.id && job.createdAt >= monthStart && job.status !== 'failed')
+    .reduce((total, job) => total + (job.duration ?? 0), 0);
+
+  const usedMinutes = usedSeconds / 60;
+  const limitMinutes = user.monthlyRenderMinutes ?? renderLimits.monthlyRenderMinutes;
+  return { usedMinutes, limitMinutes, remainingMinutes: Math.max(limitMinutes - usedMinutes, 0) };
+}
+
+// The start times of recent renders by user ID, kept globally so that they survive hot reloading during development
+// Snapshots are counted separately, by the user ID or otherwise the address of the client, see consumeSnapshotLimit
+const recentRenders = getGlobal('recentRenders', () => new Map<string, number[]>());
+
+const rateLimitWindow = 60 * 60 * 1000;
+
+// The number of renders the user may start per hour
+export function getRateLimit(user: User) {
+  return user.rendersPerHour ?? renderLimits.rendersPerHour;
+}
+
+// Records the renders for the user, or returns the number of seconds to wait when they would exceed the rate limit
+// The count must not exceed the rate limit, as the renders could never be started at once
+export function consumeRateLimit(user: User, count = 1): number | undefined {
+  return consume(user.id, getRateLimit(user), count);
+}
+
+// Records a snapshot render, or returns the number of seconds to wait when the client has rendered too many recently
+// Snapshots are also rendered when authentication is disabled, so clients are identified by their address then
+export function consumeSnapshotLimit(clientId: string): number | undefined {
+  return consume(`snapshot:${clientId}`, renderLimits.snapshotsPerHour, 1);
+}
+
+const consume = (key: string, limit: number, count: number) => {
+  const now = Date.now();
+  const renders = (recentRenders.get(key) ?? []).filter((time) => time > now - rateLimitWindow);
+
+  if (renders.length + count > limit) {
+    recentRenders.set(key, renders);
+    // Wait until enough of the recent renders have left the window
+    return Math.ceil((renders[renders.length + count - limit - 1] + rateLimitWindow - now) / 1000);
+  }
+
+  recentRenders.set(key, [...renders, ...Array.from({ length: count }, () => now)]);
+  return undefined;
+};
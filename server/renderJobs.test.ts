@@ -0,0 +1,128 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { User } from './auth';
+
+// The stores are created when the modules are imported, so these are imported once the env variables have been set
+let authorizeRender: typeof import('./renderJobs').authorizeRender;
+let auth: typeof import('./auth');
+let jobStore: typeof import('./jobStore').jobStore;
+
+beforeAll(async () => {
+  vi.stubEnv('NEXT_PUBLIC_OFFLINE_MODE', 'true');
+  vi.stubEnv('STORE', 'memory');
+  vi.stubEnv('AUTH_SECRET', 'secret');
+  vi.stubEnv('PUBLIC_URL', '');
+
+  ({ authorizeRender } = await import('./renderJobs'));
+  auth = await import('./auth');
+  ({ jobStore } = await import('./jobStore'));
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+let users: User[];
+
+beforeEach(() => {
+  users = [];
+  vi.spyOn(auth.authProvider, 'findUser').mockImplementation(async (id) => users.find((user) => user.id === id));
+});
+
+// A user with their own limits, so that the tests don't share their recent renders
+const createUser = (overrides: Partial<User> = {}) => {
+  const user = { id: `user-${users.length + 1}-${Date.now()}`, name: 'Test', passwordHash: '', ...overrides };
+  users.push(user);
+  return user;
+};
+
+// A source that lasts the provided number of seconds
+const createBody = (duration: number) => ({
+  source: { width: 1280, height: 720, elements: [{ type: 'shape', duration }] },
+});
+
+// Calls authorizeRender as the user, returning the request it authorized or the error response
+const authorize = async (user: User | undefined, body: Record<string, any>, renderCount?: number) => {
+  const req = {
+    body,
+    headers: user ? { authorization: `Bearer ${auth.createSessionToken(user.id)}` } : {},
+    cookies: {},
+  };
+
+  const response = { status: 200, headers: {} as Record<string, unknown>, body: undefined as any };
+  const res = {
+    status(status: number) {
+      response.status = status;
+      return res;
+    },
+    json(body: unknown) {
+      response.body = body;
+    },
+    setHeader(name: string, value: unknown) {
+      response.headers[name] = value;
+    },
+  };
+
+  const request = await authorizeRender(
+    req as unknown as NextApiRequest,
+    res as unknown as NextApiResponse,
+    renderCount,
+  );
+  return { request, response };
+};
+
+describe('authorizeRender', () => {
+  it('requires the user to be signed in', async () => {
+    const { request, response } = await authorize(undefined, createBody(10));
+
+    expect(request).toBeUndefined();
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe('unauthorized');
+  });
+
+  it('authorizes a valid source, with its estimated duration', async () => {
+    const user = createUser();
+    const { request } = await authorize(user, createBody(10));
+
+    expect(request).toMatchObject({ user, duration: 10 });
+  });
+
+  it('rejects renders that exceed the monthly quota, without counting failed renders', async () => {
+    const user = createUser({ monthlyRenderMinutes: 2 });
+    const createdAt = new Date().toISOString();
+    const job = {
+      outputFormat: 'mp4' as const,
+      fileName: 'video.mp4',
+      userId: user.id,
+      createdAt,
+      updatedAt: createdAt,
+    };
+    await jobStore.save({ ...job, id: `${user.id}-1`, status: 'succeeded', duration: 60 });
+    await jobStore.save({ ...job, id: `${user.id}-2`, status: 'failed', duration: 60 });
+
+    expect((await authorize(user, createBody(60))).request).toBeDefined();
+
+    const { request, response } = await authorize(user, createBody(30), 3);
+    expect(request).toBeUndefined();
+    expect(response.status).toBe(403);
+    expect(response.body.error).toMatchObject({ code: 'quota_exceeded', details: { quota: { usedMinutes: 1 } } });
+  });
+
+  it('limits the number of renders per hour', async () => {
+    const user = createUser({ rendersPerHour: 3 });
+
+    const tooMany = await authorize(user, createBody(1), 4);
+    expect(tooMany.response.status).toBe(422);
+    expect(tooMany.response.body.error.details.errors).toEqual(['At most 3 videos can be created per hour.']);
+
+    expect((await authorize(user, createBody(1), 2)).request).toBeDefined();
+
+    const { request, response } = await authorize(user, createBody(1), 2);
+    expect(request).toBeUndefined();
+    expect(response.status).toBe(429);
+    expect(response.body.error.code).toBe('rate_limited');
+    expect(response.headers['Retry-After']).toBe(3600);
+
+    expect((await authorize(user, createBody(1))).request).toBeDefined();
+  });
+});
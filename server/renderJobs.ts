@@ -0,0 +1,192 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { RenderOptions } from 'creatomate';
+import { defaultOutputOptions, OutputOptions, validateOutputOptions } from '../utility/outputOptions';
+import { client, getOwnHost, getWebhookUrl } from './client';
+import { applyRender, isFinished, jobStore, RenderJob } from './jobStore';
+import { estimateDuration, matchesHost, validateSource } from './sourceValidation';
+import { getUser, isAuthEnabled, User } from './auth';
+import { consumeRateLimit, getQuota, getRateLimit } from './quota';
+import { isOfflineMode } from '../utility/offlineMode';
+import { sendError, sendRenderError } from './apiErrors';
+import { getOfflineRenderDirectory } from './offlineRenderClient';
+
+// A request to render the source in the request body, that has passed all checks
+export interface RenderRequest {
+  user?: User;
+  templateId?: string;
+  source: Record<string, any>;
+  output: OutputOptions;
+  // The estimated duration of a single render in seconds
+  duration: number;
+}
+
+// Checks whether the request may start the provided number of renders
+// When it may not, an error response is sent and undefined is returned
+export async function authorizeRender(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  renderCount = 1,
+  validateRequest: (ownHost: string | undefined) => string[] = () => [],
+): Promise<RenderRequest | undefined> {
+  // Return an HTTP 500 response when the API key was not provided
+  if (!process.env.CREATOMATE_API_KEY && !isOfflineMode()) {
+    sendError(res, 'not_configured', 'No API key was provided. Please refer to the README.md for instructions.');
+    return undefined;
+  }
+
+  // Return an HTTP 401 response when authentication is enabled and the user is not signed in
+  const user = isAuthEnabled() ? await getUser(req) : undefined;
+  if (isAuthEnabled() && !user) {
+    sendError(res, 'unauthorized', 'Please sign in to create videos.');
+    return undefined;
+  }
+
+  // Return an HTTP 422 response listing the problems with the source and output options
+  const output = req.body.output ?? defaultOutputOptions;
+  const ownHost = getOwnHost();
+  let sourceErrors: string[];
+  try {
+    sourceErrors = await validateSource(req.body.source, req.body.templateId, ownHost);
+  } catch (error) {
+    // The template that the source must derive from could not be retrieved
+    sendRenderError(res, error);
+    return undefined;
+  }
+
+  const errors = [
+    ...sourceErrors,
+    ...validateOutputOptions(output).map((error) => `output: ${error}`),
+    ...validateRequest(ownHost),
+  ];
+  if (errors.length > 0) {
+    sendError(res, 'validation_failed', 'The video cannot be rendered.', { errors });
+    return undefined;
+  }
+
+  const duration = estimateDuration(req.body.source);
+
+  if (user) {
+    // Return an HTTP 403 response when the renders would exceed the user's monthly quota
+    const quota = await getQuota(user);
+    if ((duration * renderCount) / 60 > quota.remainingMinutes) {
+      sendError(
+        res,
+        'quota_exceeded',
+        `This would exceed your monthly quota, ${formatMinutes(quota.remainingMinutes)} are left.`,
+        { quota },
+      );
+      return undefined;
+    }
+
+    // Return an HTTP 422 response when more renders are requested than may be started in an hour
+    const rateLimit = getRateLimit(user);
+    if (renderCount > rateLimit) {
+      const errors = [`At most ${rateLimit} videos can be created per hour.`];
+      sendError(res, 'validation_failed', 'The videos cannot be rendered.', { errors });
+      return undefined;
+    }
+
+    // Return an HTTP 429 response when the user has started too many renders recently
+    const retryAfter = consumeRateLimit(user, renderCount);
+    if (retryAfter !== undefined) {
+      res.setHeader('Retry-After', retryAfter);
+      sendError(
+        res,
+        'rate_limited',
+        `You have created too many videos recently, please try again in ${formatMinutes(retryAfter / 60)}.`,
+        { retryAfter },
+      );
+      return undefined;
+    }
+  }
+
+  return { user, templateId: req.body.templateId, source: req.body.source, output, duration };
+}
+
+// Starts a render without waiting for it to finish, so that long videos don't exceed the request timeout
+// The title and modifications are recorded along with the source, so that the render can be opened in the editor again
+export async function startJob(
+  request: RenderRequest,
+  options: RenderOptions,
+  fileName: string,
+  title?: string,
+  modifications: Record<string, any> = options.modifications ?? {},
+) {
+  const [render] = await client.startRender({ ...options, webhookUrl: getWebhookUrl() });
+
+  const now = new Date().toISOString();
+  const job = applyRender(
+    {
+      id: render.id,
+      status: render.status,
+      outputFormat: request.output.format,
+      userId: request.user?.id,
+      title,
+      templateId: request.templateId,
+      source: request.source,
+      modifications,
+      duration: request.duration,
+      fileName,
+      createdAt: now,
+      updatedAt: now,
+    },
+    render,
+  );
+
+  await jobStore.save(job);
+  return job;
+}
+
+// When no webhook is received, for example when running locally, fetch the status from Creatomate instead
+export async function refreshJob(job: RenderJob) {
+  if (isFinished(job) || getWebhookUrl()) {
+    return job;
+  }
+
+  try {
+    const updatedJob = applyRender(job, await client.fetchRender(job.id));
+    await jobStore.save(updatedJob);
+    return updatedJob;
+  } catch (error) {
+    // Return the last known state, the next poll will try again
+    return job;
+  }
+}
+
+// Downloads the file of a finished render, which is a placeholder file in the data directory in offline mode
+// Throws when the URL isn't a render, or when the file could not be downloaded
+export async function fetchRenderFile(url: string) {
+  if (url.startsWith('file:')) {
+    return new Response(await fs.readFile(getPlaceholderPath(url)));
+  }
+
+  const host = new URL(url).hostname;
+  if (!url.startsWith('https:') || !renderFileHosts.some((renderFileHost) => matchesHost(renderFileHost, host))) {
+    throw new Error('The file is not stored by Creatomate.');
+  }
+
+  return await fetch(url);
+}
+
+// The hosts that Creatomate stores rendered files on, so that the routes that download renders can't be used to make
+// requests to other servers
+const renderFileHosts = ['creatomate.com', '*.creatomate.com'];
+
+// Only the placeholder files of the offline render client may be read, any other local file could contain secrets
+const getPlaceholderPath = (url: string) => {
+  const filePath = fileURLToPath(url);
+  const relativePath = path.relative(getOfflineRenderDirectory(), filePath);
+  if (!isOfflineMode() || !relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    throw new Error('The file is not a render.');
+  }
+
+  return filePath;
+};
+
+const formatMinutes = (minutes: number) => {
+  const roundedMinutes = Math.ceil(minutes * 10) / 10;
+  return `${roundedMinutes} ${roundedMinutes === 1 ? 'minute' : 'minutes'}`;
+};
@@ -0,0 +1,56 @@
+import { RenderOptions } from 'creatomate';
+import { isSnapshotFormat, OutputOptions } from '../utility/outputOptions';
+import { baseLayoutProperty } from '../utility/aspectRatios';
+
+// Constant rate factor of MP4 renders, lower values result in a higher quality
+const crfByQuality = { low: 32, medium: 23, high: 18 };
+
+const gifSettingsByQuality = {
+  low: { gif_quality: 'fast', gif_compression: 100 },
+  medium: { gif_quality: 'fast', gif_compression: 30 },
+  high: { gif_quality: 'best', gif_compression: 0 },
+};
+
+// Applies the output options to the source and render options
+// Refer to: https://creatomate.com/docs/json/output-format
+export function createRenderOptions(source: Record<string, any>, output: OutputOptions): RenderOptions {
+  const outputSource: Record<string, any> = { ...source, output_format: output.format };
+  if (Array.isArray(source.elements)) {
+    outputSource.elements = source.elements.map(removeBaseLayout);
+  }
+
+  // Remove settings of the template that don't apply to the chosen format
+  delete outputSource.frame_rate;
+  delete outputSource.snapshot_time;
+  delete outputSource.crf;
+  delete outputSource.gif_quality;
+  delete outputSource.gif_compression;
+
+  if (isSnapshotFormat(output.format)) {
+    outputSource.snapshot_time = output.snapshotTime ?? 0;
+  } else {
+    if (output.frameRate) {
+      outputSource.frame_rate = output.frameRate;
+    }
+
+    if (output.format === 'mp4') {
+      outputSource.crf = crfByQuality[output.quality];
+    } else {
+      Object.assign(outputSource, gifSettingsByQuality[output.quality]);
+    }
+  }
+
+  return {
+    outputFormat: output.format,
+    renderScale: output.scale,
+    maxWidth: output.width,
+    maxHeight: output.height,
+    source: outputSource,
+  };
+}
+
+// The layout that the editor keeps to convert text between aspect ratios isn't a property of Creatomate elements
+const removeBaseLayout = (element: Record<string, any>): Record<string, any> => {
+  const { [baseLayoutProperty]: baseLayout, ...rest } = element;
+  return Array.isArray(rest.elements) ? { ...rest, elements: rest.elements.map(removeBaseLayout) } : rest;
+};
@@ -0,0 +1,24 @@
+import { randomBytes } from 'crypto';
+import { createStore } from './Store';
+
+// A snapshot of an edit that can be viewed by anyone with the link, without being able to change it
+export interface Share {
+  // A short random ID, as it's part of the link
+  id: string;
+  title?: string;
+  templateId: string;
+  // Refer to: https://creatomate.com/docs/json/introduction
+  source: Record<string, any>;
+  // Refer to: https://creatomate.com/docs/api/rest-api/the-modifications-object
+  modifications: Record<string, any>;
+  // The user that shared the edit, when authentication is enabled
+  userId?: string;
+  createdAt: string;
+}
+
+export const shareStore = createStore<Share>('shares');
+
+// 6 random bytes are encoded as 8 URL-safe characters
+export function createShareId() {
+  return randomBytes(6).toString('base64url');
+}
@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Render } from 'creatomate';
+import { client } from './client';
+import { createRenderOptions } from './renderOptions';
+import { fetchRenderFile } from './renderJobs';
+import { getDataDirectory } from './Store';
+import { getGlobal } from './globals';
+import { isOfflineMode } from '../utility/offlineMode';
+
+// Frame snapshots of the slides, used as thumbnails in the settings panel
+// Rendered snapshots are cached in the data directory, so that an unchanged slide is only rendered once
+
+export interface Snapshot {
+  contentType: string;
+  data: Buffer;
+}
+
+// The size that snapshots are scaled down to fit in, in pixels
+const maxSnapshotSize = 320;
+
+// The maximum number of snapshots in the cache, the least recently used ones are removed first
+const maxCachedSnapshots = 1000;
+
+// How long a snapshot may take to render before it's given up on, in milliseconds
+const renderTimeout = 60000;
+
+// In offline mode, a placeholder image is drawn instead of rendering the snapshot
+const snapshotFormat = isOfflineMode()
+  ? { extension: 'svg', contentType: 'image/svg+xml' }
+  : { extension: 'jpg', contentType: 'image/jpeg' };
+
+// The snapshots that are being rendered by their key, kept globally so that they survive hot reloading
+const pendingRenders = getGlobal(
+  'pendingSnapshots',
+  () => new Map<string, { render: Promise<Render>; startedAt: number }>(),
+);
+
+// Identifies the snapshot of the source at the provided time, both in the cache and while it's being rendered
+export function getSnapshotKey(source: Record<string, any>, modifications: Record<string, any>, time: number) {
+  return createHash('sha256').update(JSON.stringify({ source, modifications, time })).digest('hex');
+}
+
+// Returns the snapshot when it has been rendered, or undefined when it's still rendering or hasn't been started
+export async function findSnapshot(key: string): Promise<Snapshot | undefined> {
+  const filePath = getSnapshotPath(key);
+  try {
+    const data = await fs.readFile(filePath);
+    // The modification time tells which snapshots have been used least recently
+    const now = new Date();
+    await fs.utimes(filePath, now, now);
+    return { contentType: snapshotFormat.contentType, data };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  const pending = pendingRenders.get(key);
+  if (!pending) {
+    return undefined;
+  }
+
+  // Snapshots render within seconds, so the client polls for the snapshot rather than the request waiting for it
+  let render: Render;
+  try {
+    render = await client.fetchRender((await pending.render).id);
+    if (render.status === 'failed') {
+      throw new Error(render.errorMessage ?? 'The snapshot could not be rendered.');
+    } else if (render.status !== 'succeeded' && Date.now() - pending.startedAt > renderTimeout) {
+      throw new Error('Rendering the snapshot took too long.');
+    }
+  } catch (error) {
+    pendingRenders.delete(key);
+    throw error;
+  }
+
+  if (render.status !== 'succeeded') {
+    return undefined;
+  }
+
+  pendingRenders.delete(key);
+  const response = await fetchRenderFile(render.url);
+  if (!response.ok) {
+    throw new Error('The snapshot could not be downloaded from Creatomate.');
+  }
+
+  return await cacheSnapshot(key, Buffer.from(await response.arrayBuffer()));
+}
+
+// Returns whether the snapshot is being rendered, in which case findSnapshot returns it once it's done
+export function isSnapshotRendering(key: string) {
+  return pendingRenders.has(key);
+}
+
+// Starts rendering the snapshot, which is returned right away in offline mode as a placeholder is drawn instead
+export async function startSnapshot(
+  key: string,
+  source: Record<string, any>,
+  modifications: Record<string, any>,
+  time: number,
+): Promise<Snapshot | undefined> {
+  if (isOfflineMode()) {
+    return await cacheSnapshot(key, drawPlaceholder(source, modifications));
+  }
+
+  const options = createRenderOptions(source, {
+    format: 'jpg',
+    quality: 'medium',
+    width: maxSnapshotSize,
+    height: maxSnapshotSize,
+    snapshotTime: time,
+  });
+
+  // Forget the renders that were abandoned, which nobody has asked for until they timed out
+  pendingRenders.forEach((pending, pendingKey) => {
+    if (Date.now() - pending.startedAt > renderTimeout) {
+      pendingRenders.delete(pendingKey);
+    }
+  });
+
+  // The render is registered before it has started, so that concurrent requests for it don't start it again
+  const render = client.startRender({ ...options, modifications }).then(([render]) => render);
+  pendingRenders.set(key, { render, startedAt: Date.now() });
+
+  try {
+    await render;
+  } catch (error) {
+    pendingRenders.delete(key);
+    throw error;
+  }
+
+  return undefined;
+}
+
+const getSnapshotPath = (key: string) => {
+  return path.join(getDataDirectory(), 'snapshots', `${key}.${snapshotFormat.extension}`);
+};
+
+const cacheSnapshot = async (key: string, data: Buffer): Promise<Snapshot> => {
+  const filePath = getSnapshotPath(key);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, data);
+  await evictSnapshots(path.dirname(filePath));
+
+  return { contentType: snapshotFormat.contentType, data };
+};
+
+// Removes the least recently used snapshots once the cache holds more than the maximum
+const evictSnapshots = async (directory: string) => {
+  const fileNames = await fs.readdir(directory);
+  if (fileNames.length <= maxCachedSnapshots) {
+    return;
+  }
+
+  const files = await Promise.all(
+    fileNames.map(async (fileName) => {
+      const filePath = path.join(directory, fileName);
+      return { filePath, usedAt: (await fs.stat(filePath)).mtimeMs };
+    }),
+  );
+
+  files.sort((a, b) => a.usedAt - b.usedAt);
+  await Promise.all(
+    files.slice(0, files.length - maxCachedSnapshots).map((file) => fs.rm(file.filePath, { force: true })),
+  );
+};
+
+// Draws the background color and the first text of the source, in the aspect ratio of the video
+const drawPlaceholder = (source: Record<string, any>, modifications: Record<string, any>) => {
+  const width = Number(source.width) || 1920;
+  const height = Number(source.height) || 1080;
+
+  const findText = (elements: Record<string, any>[]): string | undefined => {
+    for (const element of elements) {
+      const text =
+        element.type === 'text'
+          ? modifications[element.name] ?? modifications[`${element.name}.text`] ?? element.text
+          : findText(element.elements ?? []);
+      if (typeof text === 'string' && text.trim()) {
+        return text;
+      }
+    }
+  };
+
+  const text = findText(source.elements ?? []) ?? '';
+  const fontSize = Math.round(height / 12);
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+      `<rect width="100%" height="100%" fill="${escapeXml(String(source.fill_color ?? '#333'))}"/>` +
+      `<text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="${fontSize}" text-anchor="middle" dominant-baseline="middle">` +
+      `${escapeXml(text.length > 30 ? `${text.slice(0, 29)}…` : text)}</text></svg>`,
+  );
+};
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, (character) => `&#${character.charCodeAt(0)};`);
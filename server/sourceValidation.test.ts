@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { estimateDuration, sourceLimits, validateModifications, validateSource } from './sourceValidation';
+
+const source = {
+  width: 1920,
+  height: 1080,
+  elements: [
+    {
+      name: 'Slide-1',
+      type: 'composition',
+      track: 1,
+      duration: 4,
+      elements: [
+        { name: 'Slide-1-Image', type: 'image', source: 'https://creatomate-static.s3.amazonaws.com/demo/image.jpg' },
+        { name: 'Slide-1-Text', type: 'text', text: 'Hello' },
+      ],
+    },
+    { name: 'Slide-2', type: 'composition', track: 1, duration: 6 },
+  ],
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('validateSource', () => {
+  it('accepts a source within the limits', async () => {
+    expect(await validateSource(source, undefined, 'localhost')).toEqual([]);
+  });
+
+  it('rejects element types and assets that are not allowed', async () => {
+    const errors = await validateSource(
+      {
+        elements: [
+          { type: 'image', source: 'http://169.254.169.254/latest' },
+          { type: 'video', source: '//creatomate-static.s3.amazonaws.com/video.mp4', duration: 1 },
+          { type: 'text', font_source: 'https://fonts.example.com/font.ttf' },
+          { type: 'image', source: 'https://localhost/api/uploads/1' },
+          { type: 'iframe' },
+        ],
+      },
+      undefined,
+      'localhost',
+    );
+
+    expect(errors).toEqual([
+      "source.elements[0].source: Assets from '169.254.169.254' are not allowed.",
+      "source.elements[1].source: Assets from '//creatomate-static.s3.amazonaws.com/vid' are not allowed.",
+      "source.elements[2].font_source: Assets from 'fonts.example.com' are not allowed.",
+      "source.elements[4].type: The element type 'iframe' is not allowed.",
+    ]);
+  });
+
+  it('rejects sources with too many elements or that are too long', async () => {
+    const elements = Array.from({ length: 6 }, () => ({ type: 'shape', duration: 60 }));
+    const errors = await validateSource({ elements }, undefined, undefined, { ...sourceLimits, maxElements: 5 });
+
+    expect(errors).toEqual([
+      'source.elements: The source contains 6 elements, the maximum is 5.',
+      'source.duration: The video is 360 seconds long, the maximum is 300.',
+    ]);
+  });
+
+  it('only accepts the elements of an approved template, and slides added to it', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ source })));
+    vi.stubGlobal('fetch', fetch);
+    const limits = { ...sourceLimits, approvedTemplateIds: ['approved'] };
+
+    const extendedSource = {
+      elements: [
+        ...source.elements,
+        { name: 'Slide-3', type: 'composition', elements: [{ name: 'Slide-3-Text', type: 'text' }] },
+        { name: 'Subtitle-1', type: 'text' },
+        { name: 'Watermark', type: 'text' },
+      ],
+    };
+
+    expect(await validateSource(extendedSource, 'approved', undefined, limits)).toEqual([
+      "source.elements[4].name: The element 'Watermark' is not part of template approved.",
+    ]);
+    expect(await validateSource(source, 'other', undefined, limits)).toEqual([
+      'templateId: The source must be based on an approved template.',
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('validateModifications', () => {
+  it('checks the assets and properties that are modified', () => {
+    const errors = validateModifications(
+      {
+        'Slide-1-Image': 'https://example.com/image.jpg',
+        'Slide-1-Text': 'Visit https://example.com',
+        'Slide-1-Text.fill_color': '#ffffff',
+        'Slide-1-Text.source': 'https://creatomate-static.s3.amazonaws.com/demo/image.jpg',
+        'Slide-1-Text.background_image': '//example.com/image.jpg',
+        'Slide-2.duration': 30,
+        'Slide-2.time': { value: 1 },
+      },
+      'modifications',
+      undefined,
+      source,
+    );
+
+    expect(errors).toEqual([
+      "modifications.Slide-1-Image: Assets from 'example.com' are not allowed.",
+      'modifications.Slide-1-Text.source: Only the source of images, videos, and audio can be modified.',
+      "modifications.Slide-1-Text.background_image: Assets from '//example.com/image.jpg' are not allowed.",
+      "modifications.Slide-2.duration: The property 'duration' cannot be modified.",
+      'modifications.Slide-2.time: The value must be a string or number.',
+    ]);
+  });
+
+  it('rejects modifications that are not an object', () => {
+    expect(validateModifications([], 'rows[0]', undefined)).toEqual(['rows[0]: The modifications must be an object.']);
+  });
+});
+
+describe('estimateDuration', () => {
+  it('places the elements without a time one after another on their track', () => {
+    expect(
+      estimateDuration({
+        elements: [
+          { track: 1, duration: 4 },
+          { track: 1, duration: '2.5' },
+          { track: 2, time: 1, duration: 3 },
+          { track: 3, time: 5, elements: [{ duration: 4 }, { time: 1, duration: 2 }] },
+        ],
+      }),
+    ).toBe(9);
+  });
+
+  it('counts media without a duration as lasting the maximum duration, unless they are trimmed', () => {
+    expect(estimateDuration({ elements: [{ type: 'audio' }] })).toBe(sourceLimits.maxDuration);
+    expect(estimateDuration({ elements: [{ type: 'video', trim_duration: 12 }] })).toBe(12);
+  });
+});
@@ -0,0 +1,302 @@
+import { ConnectionError } from 'creatomate';
+import renderLimits from '../config/renderLimits.json';
+import { isObject } from '../utility/isObject';
+
+// Limits of the sources that can be rendered, as configured in config/renderLimits.json
+export interface SourceLimits {
+  // The maximum duration of the video in seconds
+  maxDuration: number;
+  // The maximum number of elements, including those nested in compositions
+  maxElements: number;
+  allowedElementTypes: string[];
+  // Host names that assets may be loaded from, e.g. 'example.com' or '*.example.com'
+  // The host of PUBLIC_URL is always allowed, so that uploads can be used
+  allowedAssetHosts: string[];
+  // When not empty, the source must derive from one of these templates
+  approvedTemplateIds: string[];
+  // Names of elements that may be added to an approved template, such as 'Logo' or 'Subtitle-*'
+  allowedExtraElementNames: string[];
+}
+
+export const sourceLimits: SourceLimits = renderLimits;
+
+// Properties that refer to assets, refer to: https://creatomate.com/docs/json/elements/image-element
+const assetProperties = ['source', 'font_source'];
+
+// Properties that determine the timing and structure of the video, which modifications may not change, as the duration
+// and elements have already been validated as part of the source
+const restrictedProperties = ['type', 'track', 'time', 'duration', 'elements', 'trim_start', 'trim_duration', 'loop'];
+
+// The element types of which the source is a media file, for other elements such as compositions it's a template
+const mediaElementTypes = ['image', 'video', 'audio'];
+
+// Returns the list of problems with the source, which is empty when it can be rendered
+export async function validateSource(
+  source: any,
+  templateId: unknown,
+  ownHost: string | undefined,
+  limits = sourceLimits,
+): Promise<string[]> {
+  if (!isObject(source)) {
+    return ['source: The source must be an object.'];
+  }
+
+  if (!Array.isArray(source.elements)) {
+    return ['source.elements: The source must contain an array of elements.'];
+  }
+
+  const errors: string[] = [];
+  const elements: { element: Record<string, any>; path: string }[] = [];
+
+  const visit = (children: unknown[], path: string) => {
+    children.forEach((element, i) => {
+      const elementPath = `${path}[${i}]`;
+      if (!isObject(element)) {
+        errors.push(`${elementPath}: The element must be an object.`);
+        return;
+      }
+
+      elements.push({ element, path: elementPath });
+
+      if (element.elements !== undefined) {
+        if (Array.isArray(element.elements)) {
+          visit(element.elements, `${elementPath}.elements`);
+        } else {
+          errors.push(`${elementPath}.elements: The nested elements must be an array.`);
+        }
+      }
+    });
+  };
+
+  visit(source.elements, 'source.elements');
+
+  if (elements.length > limits.maxElements) {
+    errors.push(
+      `source.elements: The source contains ${elements.length} elements, the maximum is ${limits.maxElements}.`,
+    );
+  }
+
+  const allowedHosts = ownHost ? [...limits.allowedAssetHosts, ownHost] : limits.allowedAssetHosts;
+
+  for (const { element, path } of elements) {
+    if (!limits.allowedElementTypes.includes(element.type)) {
+      errors.push(`${path}.type: The element type '${element.type}' is not allowed.`);
+    }
+
+    for (const property of assetProperties) {
+      const value = element[property];
+      if (typeof value === 'string' && value && !isAllowedAsset(value, allowedHosts)) {
+        errors.push(`${path}.${property}: Assets from '${getHost(value) || value.slice(0, 40)}' are not allowed.`);
+      }
+    }
+  }
+
+  const duration = estimateDuration(source, limits);
+  if (duration > limits.maxDuration) {
+    errors.push(
+      `source.duration: The video is ${Math.ceil(duration)} seconds long, the maximum is ${limits.maxDuration}.`,
+    );
+  }
+
+  if (limits.approvedTemplateIds.length > 0) {
+    errors.push(...(await validateTemplate(elements, templateId, limits)));
+  }
+
+  return errors;
+}
+
+// Returns the list of problems with a modifications object, such as values that load assets from other hosts
+// Selectors are in the form of 'Title' or 'Title.fill_color', and are checked against the elements of the source
+export function validateModifications(
+  modifications: unknown,
+  path: string,
+  ownHost: string | undefined,
+  source?: unknown,
+  limits = sourceLimits,
+) {
+  if (!isObject(modifications)) {
+    return [`${path}: The modifications must be an object.`];
+  }
+
+  const elementTypes = new Map<string, unknown>();
+  const collectTypes = (element: unknown) => {
+    if (isObject(element)) {
+      if (typeof element.name === 'string') {
+        elementTypes.set(element.name, element.type);
+      }
+      (Array.isArray(element.elements) ? element.elements : []).forEach(collectTypes);
+    }
+  };
+  collectTypes(source);
+
+  const allowedHosts = ownHost ? [...limits.allowedAssetHosts, ownHost] : limits.allowedAssetHosts;
+  const errors: string[] = [];
+
+  for (const [selector, value] of Object.entries(modifications)) {
+    const [elementName, property] = selector.split('.');
+    const elementType = elementTypes.get(elementName);
+
+    // An element name on its own sets the source of a media element
+    const isAsset =
+      (property !== undefined && assetProperties.includes(property)) ||
+      (property === undefined && mediaElementTypes.includes(elementType as string));
+
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      errors.push(`${path}.${selector}: The value must be a string or number.`);
+    } else if (property !== undefined && restrictedProperties.includes(property)) {
+      errors.push(`${path}.${selector}: The property '${property}' cannot be modified.`);
+    } else if (property === 'source' && !mediaElementTypes.includes(elementType as string)) {
+      errors.push(`${path}.${selector}: Only the source of images, videos, and audio can be modified.`);
+    } else if (
+      typeof value === 'string' &&
+      (isAsset ? !!value : /^([a-z]+:)?\/\//i.test(value)) &&
+      !isAllowedAsset(value, allowedHosts)
+    ) {
+      errors.push(`${path}.${selector}: Assets from '${getHost(value) || value.slice(0, 40)}' are not allowed.`);
+    }
+  }
+
+  return errors;
+}
+
+// Returns whether an asset that is kept outside of a source, such as the logo of a brand kit, can be rendered later on
+export function isAssetAllowed(url: string, ownHost: string | undefined, limits = sourceLimits) {
+  return isAllowedAsset(url, ownHost ? [...limits.allowedAssetHosts, ownHost] : limits.allowedAssetHosts);
+}
+
+// Checks that the source derives from an approved template, by comparing the element names with those of the template
+// Slides may be added and reordered, so 'Slide-3-Text' is accepted when the template contains 'Slide-1-Text'
+const validateTemplate = async (
+  elements: { element: Record<string, any>; path: string }[],
+  templateId: unknown,
+  limits: SourceLimits,
+) => {
+  if (typeof templateId !== 'string' || !limits.approvedTemplateIds.includes(templateId)) {
+    return ['templateId: The source must be based on an approved template.'];
+  }
+
+  const template = await fetchTemplateSource(templateId);
+  if (!template) {
+    return ['templateId: The template could not be retrieved.'];
+  }
+
+  const templateNames = new Set<string>();
+  const collectNames = (element: Record<string, any>) => {
+    if (typeof element.name === 'string') {
+      templateNames.add(normalizeSlideName(element.name));
+    }
+    element.elements?.forEach(collectNames);
+  };
+  template.elements?.forEach(collectNames);
+
+  const errors: string[] = [];
+  for (const { element, path } of elements) {
+    const name = typeof element.name === 'string' ? element.name : undefined;
+    const isKnown =
+      name !== undefined &&
+      (templateNames.has(normalizeSlideName(name)) ||
+        limits.allowedExtraElementNames.some((pattern) => matchesPattern(pattern, name)));
+
+    if (!isKnown) {
+      errors.push(`${path}.name: The element '${name ?? '(unnamed)'}' is not part of template ${templateId}.`);
+    }
+  }
+
+  return errors;
+};
+
+// Template sources are cached, as they are requested for every render
+const templateSources = new Map<string, Record<string, any>>();
+
+// Throws a ConnectionError when Creatomate can't be reached, so that it's reported like the errors of the client
+const fetchTemplateSource = async (templateId: string) => {
+  if (!templateSources.has(templateId)) {
+    let response: Response;
+    try {
+      response = await fetch(`https://api.creatomate.com/v1/templates/${encodeURIComponent(templateId)}`, {
+        headers: { Authorization: `Bearer ${process.env.CREATOMATE_API_KEY}` },
+      });
+    } catch (error) {
+      throw new ConnectionError('The template could not be retrieved from Creatomate.');
+    }
+
+    if (!response.ok) {
+      return undefined;
+    }
+
+    const template = await response.json();
+    templateSources.set(templateId, template.source);
+  }
+
+  return templateSources.get(templateId);
+};
+
+// Estimates the duration of the video in seconds
+// Elements without a time are placed one after another on their track, like Creatomate's timeline does. Videos and
+// audio without a duration play until their file ends, which isn't known without downloading it, so they're counted as
+// lasting the maximum duration of a video
+export function estimateDuration(element: Record<string, any>, limits = sourceLimits): number {
+  const duration = toNumber(element.duration);
+  if (duration !== undefined) {
+    return duration;
+  }
+
+  if (element.type === 'video' || element.type === 'audio') {
+    return toNumber(element.trim_duration) ?? limits.maxDuration;
+  }
+
+  if (!Array.isArray(element.elements)) {
+    return 0;
+  }
+
+  const trackEnds = new Map<number, number>();
+  let end = 0;
+
+  for (const child of element.elements) {
+    if (!isObject(child)) {
+      continue;
+    }
+
+    const track = toNumber(child.track) ?? 1;
+    const start = toNumber(child.time) ?? trackEnds.get(track) ?? 0;
+    const childEnd = start + estimateDuration(child, limits);
+
+    trackEnds.set(track, childEnd);
+    end = Math.max(end, childEnd);
+  }
+
+  return end;
+}
+
+const toNumber = (value: unknown) => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && isFinite(number) ? number : undefined;
+};
+
+// Assets must be absolute URLs on an allowed host, as a relative URL such as '//example.com/video.mp4' is resolved
+// against whichever host it's loaded from
+const isAllowedAsset = (url: string, allowedHosts: string[]) => {
+  const host = /^https?:\/\//i.test(url) ? getHost(url) : undefined;
+  return !!host && allowedHosts.some((allowedHost) => matchesHost(allowedHost, host));
+};
+
+const getHost = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch (error) {
+    return undefined;
+  }
+};
+
+// Returns whether the host matches a host name such as 'example.com', or all subdomains of one such as '*.example.com'
+export function matchesHost(pattern: string, host: string) {
+  return pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern;
+}
+
+const matchesPattern = (pattern: string, name: string) => {
+  return new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`).test(name);
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalizeSlideName = (name: string) => name.replace(/^Slide-\d+/, 'Slide-#');
@@ -0,0 +1,52 @@
+import path from 'path';
+import { createStore, getDataDirectory } from './Store';
+
+// An image, video or audio file uploaded through POST /api/uploads
+export interface Upload {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  type: 'image' | 'video' | 'audio';
+  size: number;
+  width?: number;
+  height?: number;
+  // The absolute URL the file is served from, as assets must be reachable from the preview and Creatomate
+  url: string;
+  // The user who uploaded the file, when authentication is enabled
+  userId?: string;
+  createdAt: string;
+}
+
+export const uploadStore = createStore<Upload>('uploads');
+
+interface UploadLimits {
+  mimeTypes: string[];
+  maxSize: number;
+  // Only for images and videos
+  minDimension?: number;
+  maxDimension?: number;
+}
+
+// Limits of uploaded files, sizes are in bytes and dimensions in pixels
+export const uploadLimits: Record<Upload['type'], UploadLimits> = {
+  image: {
+    mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+    maxSize: 20 * 1024 * 1024,
+    minDimension: 16,
+    maxDimension: 8192,
+  },
+  video: {
+    mimeTypes: ['video/mp4', 'video/quicktime', 'video/webm'],
+    maxSize: 250 * 1024 * 1024,
+    minDimension: 16,
+    maxDimension: 3840,
+  },
+  audio: {
+    mimeTypes: ['audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/mp4'],
+    maxSize: 50 * 1024 * 1024,
+  },
+};
+
+export function getUploadPath(id: string) {
+  return path.join(getDataDirectory(), 'uploads', id);
+}
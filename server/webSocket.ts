@@ -0,0 +1,202 @@
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { createHash } from 'crypto';
+
+// A minimal WebSocket server connection, supporting the text messages that the collaboration sessions exchange
+// Refer to: https://www.rfc-editor.org/rfc/rfc6455
+
+// The GUID that is appended to the key of the client to compute the accept header, as defined by the protocol
+const handshakeGuid = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// The maximum size of a message in bytes, which is large enough for the source of a video
+const maxMessageSize = 10 * 1024 * 1024;
+
+const opcodes = { continuation: 0, text: 1, binary: 2, close: 8, ping: 9, pong: 10 };
+
+export class WebSocketConnection {
+  onMessage?: (message: string) => void;
+  onClose?: () => void;
+
+  private readonly socket: Duplex;
+  private buffer = Buffer.alloc(0);
+  // The parts of a message that was split over several frames
+  private fragments: Buffer[] = [];
+  private isClosed = false;
+
+  constructor(socket: Duplex) {
+    this.socket = socket;
+    socket.on('data', (data: Buffer) => this.receive(data));
+    socket.on('close', () => this.handleClose());
+    socket.on('error', () => socket.destroy());
+  }
+
+  send(message: string) {
+    this.sendFrame(opcodes.text, Buffer.from(message, 'utf8'));
+  }
+
+  close(code = 1000) {
+    if (!this.isClosed) {
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code, 0);
+      this.sendFrame(opcodes.close, payload);
+      this.socket.end();
+      this.handleClose();
+    }
+  }
+
+  private handleClose() {
+    if (!this.isClosed) {
+      this.isClosed = true;
+      this.onClose?.();
+    }
+  }
+
+  private sendFrame(opcode: number, payload: Buffer) {
+    if (this.isClosed) {
+      return;
+    }
+
+    // Frames sent by the server aren't masked, and the length is encoded in 7, 16, or 64 bits
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header.writeUInt8(0x80 | opcode, 0);
+      header.writeUInt8(126, 1);
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header.writeUInt8(0x80 | opcode, 0);
+      header.writeUInt8(127, 1);
+      header.writeUInt32BE(Math.floor(payload.length / 0x100000000), 2);
+      header.writeUInt32BE(payload.length % 0x100000000, 6);
+    }
+
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+
+  private receive(data: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    // Handle every complete frame in the buffer, the rest is kept until more data arrives
+    for (;;) {
+      const frame = readFrame(this.buffer);
+      if (!frame) {
+        return;
+      }
+
+      if (frame.length > maxMessageSize) {
+        this.close(1009);
+        return;
+      }
+
+      if (this.buffer.length < frame.end) {
+        return;
+      }
+
+      const payload = this.buffer.subarray(frame.start, frame.end);
+      this.buffer = this.buffer.subarray(frame.end);
+
+      // Frames sent by a client are always masked
+      if (!frame.mask) {
+        this.close(1002);
+        return;
+      }
+
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= frame.mask[i % 4];
+      }
+
+      this.handleFrame(frame.isFinal, frame.opcode, payload);
+    }
+  }
+
+  private handleFrame(isFinal: boolean, opcode: number, payload: Buffer) {
+    switch (opcode) {
+      case opcodes.text:
+      case opcodes.continuation:
+        this.fragments.push(Buffer.from(payload));
+        if (this.fragments.reduce((size, fragment) => size + fragment.length, 0) > maxMessageSize) {
+          this.close(1009);
+        } else if (isFinal) {
+          const message = Buffer.concat(this.fragments).toString('utf8');
+          this.fragments = [];
+          this.onMessage?.(message);
+        }
+        break;
+      case opcodes.ping:
+        this.sendFrame(opcodes.pong, payload);
+        break;
+      case opcodes.close:
+        this.close();
+        break;
+      case opcodes.pong:
+        break;
+      default:
+        // Binary messages aren't used
+        this.close(1003);
+    }
+  }
+}
+
+// Completes the handshake of an upgrade request, returning undefined when it isn't a valid WebSocket request
+export function acceptWebSocket(req: IncomingMessage, socket: Duplex) {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    rejectWebSocket(socket, 400, 'Bad Request');
+    return undefined;
+  }
+
+  const accept = createHash('sha1')
+    .update(key + handshakeGuid)
+    .digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+
+  return new WebSocketConnection(socket);
+}
+
+export function rejectWebSocket(socket: Duplex, status: number, statusText: string) {
+  socket.end(`HTTP/1.1 ${status} ${statusText}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+// Reads the header of the frame at the start of the buffer, or returns undefined when it hasn't fully arrived yet
+const readFrame = (buffer: Buffer) => {
+  if (buffer.length < 2) {
+    return undefined;
+  }
+
+  const isFinal = (buffer[0] & 0x80) !== 0;
+  const opcode = buffer[0] & 0x0f;
+  const isMasked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) {
+      return undefined;
+    }
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) {
+      return undefined;
+    }
+    length = buffer.readUInt32BE(2) * 0x100000000 + buffer.readUInt32BE(6);
+    offset = 10;
+  }
+
+  if (isMasked && buffer.length < offset + 4) {
+    return undefined;
+  }
+
+  const mask = isMasked ? buffer.subarray(offset, offset + 4) : undefined;
+  const start = isMasked ? offset + 4 : offset;
+
+  return { isFinal, opcode, mask, length, start, end: start + length };
+};
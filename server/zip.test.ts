@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, ZipEntry } from './zip';
+
+describe('createZip', () => {
+  it('stores the entries along with their checksums in the central directory', async () => {
+    const zip = await readAll(
+      createZip([
+        createEntry('hello.txt', ['The quick brown fox ', 'jumps over the lazy dog']),
+        createEntry('empty.txt', []),
+        createEntry('Vidéo 1.mp4', ['abc']),
+      ]),
+    );
+
+    const entries = readZip(zip);
+    expect(entries.map(({ name, data }) => ({ name, data: data.toString() }))).toEqual([
+      { name: 'hello.txt', data: 'The quick brown fox jumps over the lazy dog' },
+      { name: 'empty.txt', data: '' },
+      { name: 'Vidéo 1.mp4', data: 'abc' },
+    ]);
+    expect(entries.map((entry) => entry.crc)).toEqual([0x414fa339, 0, 0x352441c2]);
+  });
+
+  it('reads the entries one at a time, while the archive is being consumed', async () => {
+    const readEntries: string[] = [];
+    const entries = async function* () {
+      for (const name of ['a.txt', 'b.txt']) {
+        readEntries.push(name);
+        yield createEntry(name, [name]);
+      }
+    };
+
+    const zip = createZip(entries());
+    await zip.next();
+    expect(readEntries).toEqual(['a.txt']);
+
+    await readAll(zip);
+    expect(readEntries).toEqual(['a.txt', 'b.txt']);
+  });
+
+  it('adds ZIP64 records when there are more entries than the end record can count', async () => {
+    const entryCount = 0x10000;
+    const zip = await readAll(createZip(Array.from({ length: entryCount }, (_, i) => createEntry(`${i}.txt`, []))));
+
+    const end = zip.subarray(zip.length - 22);
+    expect(end.readUInt16LE(10)).toBe(0xffff);
+
+    const locator = zip.subarray(zip.length - 42, zip.length - 22);
+    expect(locator.readUInt32LE(0)).toBe(0x07064b50);
+
+    const zip64End = zip.subarray(Number(locator.readBigUInt64LE(8)));
+    expect(zip64End.readUInt32LE(0)).toBe(0x06064b50);
+    expect(Number(zip64End.readBigUInt64LE(32))).toBe(entryCount);
+    expect(readZip(zip, Number(zip64End.readBigUInt64LE(48)), entryCount)).toHaveLength(entryCount);
+  });
+});
+
+const createEntry = (name: string, chunks: string[]): ZipEntry => ({
+  name,
+  data: (async function* () {
+    for (const chunk of chunks) {
+      yield Buffer.from(chunk);
+    }
+  })(),
+});
+
+const readAll = async (zip: AsyncIterable<Buffer>) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of zip) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+// Reads the entries listed in the central directory, and their data from the local headers they refer to
+const readZip = (zip: Buffer, centralDirectoryOffset?: number, entryCount?: number) => {
+  const end = zip.subarray(zip.length - 22);
+  expect(end.readUInt32LE(0)).toBe(0x06054b50);
+
+  let offset = centralDirectoryOffset ?? end.readUInt32LE(16);
+  const count = entryCount ?? end.readUInt16LE(10);
+  const entries: { name: string; data: Buffer; crc: number }[] = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(offset)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(offset + 16);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+
+    expect(zip.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataOffset = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataOffset, dataOffset + size);
+
+    // The data descriptor that follows the data repeats the checksum and size
+    expect(zip.readUInt32LE(dataOffset + size)).toBe(0x08074b50);
+    expect(zip.readUInt32LE(dataOffset + size + 4)).toBe(crc);
+
+    entries.push({ name, data, crc });
+    offset += 46 + nameLength + extraLength;
+  }
+
+  return entries;
+};
@@ -0,0 +1,140 @@
+// Creates an uncompressed ZIP archive, as rendered videos and images are compressed already
+// The archive is generated while the entries are downloaded, so that it doesn't have to fit in memory. The checksum
+// and size of each entry follow its data in a data descriptor, and ZIP64 records are added once the archive exceeds 4 GB
+// Refer to: https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+
+export interface ZipEntry {
+  name: string;
+  data: AsyncIterable<Uint8Array>;
+}
+
+// The largest value of the 16 and 32-bit fields, which indicates that the value is in a ZIP64 record instead
+const maxUInt16 = 0xffff;
+const maxUInt32 = 0xffffffff;
+
+// General purpose flags: the sizes follow the data in a data descriptor, and file names are UTF-8
+const flags = 0x0808;
+
+export async function* createZip(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>): AsyncGenerator<Buffer> {
+  const centralParts: Buffer[] = [];
+  let entryCount = 0;
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+    localHeader.writeUInt16LE(20, 4); // Version needed to extract
+    localHeader.writeUInt16LE(flags, 6);
+    localHeader.writeUInt16LE(0, 8); // Stored without compression
+    localHeader.writeUInt32LE(0, 10); // Modification time and date
+    localHeader.writeUInt16LE(name.length, 26);
+
+    yield localHeader;
+    yield name;
+
+    let crc = maxUInt32;
+    let size = 0;
+    for await (const chunk of entry.data) {
+      size += chunk.length;
+      if (size >= maxUInt32) {
+        throw new Error(`The file ${entry.name} is too large to be added to the archive.`);
+      }
+
+      crc = updateCrc32(crc, chunk);
+      yield Buffer.from(chunk);
+    }
+    crc = (crc ^ maxUInt32) >>> 0;
+
+    const dataDescriptor = Buffer.alloc(16);
+    dataDescriptor.writeUInt32LE(0x08074b50, 0);
+    dataDescriptor.writeUInt32LE(crc, 4);
+    dataDescriptor.writeUInt32LE(size, 8);
+    dataDescriptor.writeUInt32LE(size, 12);
+    yield dataDescriptor;
+
+    // Entries that start beyond 4 GB store their offset in a ZIP64 extra field
+    const isZip64 = offset >= maxUInt32;
+    const extraField = Buffer.alloc(isZip64 ? 12 : 0);
+    if (isZip64) {
+      extraField.writeUInt16LE(0x0001, 0);
+      extraField.writeUInt16LE(8, 2);
+      writeUInt64LE(extraField, offset, 4);
+    }
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);
+    centralHeader.writeUInt16LE(45, 4); // Version made by
+    centralHeader.writeUInt16LE(isZip64 ? 45 : 20, 6);
+    centralHeader.writeUInt16LE(flags, 8);
+    centralHeader.writeUInt16LE(0, 10);
+    centralHeader.writeUInt32LE(0, 12);
+    centralHeader.writeUInt32LE(crc, 16);
+    centralHeader.writeUInt32LE(size, 20);
+    centralHeader.writeUInt32LE(size, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt16LE(extraField.length, 30);
+    centralHeader.writeUInt32LE(isZip64 ? maxUInt32 : offset, 42);
+
+    centralParts.push(centralHeader, name, extraField);
+    offset += localHeader.length + name.length + size + dataDescriptor.length;
+    entryCount++;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  yield centralDirectory;
+
+  const centralDirectoryOffset = offset;
+  offset += centralDirectory.length;
+
+  if (entryCount >= maxUInt16 || centralDirectory.length >= maxUInt32 || centralDirectoryOffset >= maxUInt32) {
+    const zip64End = Buffer.alloc(56);
+    zip64End.writeUInt32LE(0x06064b50, 0);
+    writeUInt64LE(zip64End, zip64End.length - 12, 4); // Size of the rest of the record
+    zip64End.writeUInt16LE(45, 12);
+    zip64End.writeUInt16LE(45, 14);
+    writeUInt64LE(zip64End, entryCount, 24);
+    writeUInt64LE(zip64End, entryCount, 32);
+    writeUInt64LE(zip64End, centralDirectory.length, 40);
+    writeUInt64LE(zip64End, centralDirectoryOffset, 48);
+
+    const zip64Locator = Buffer.alloc(20);
+    zip64Locator.writeUInt32LE(0x07064b50, 0);
+    writeUInt64LE(zip64Locator, offset, 8);
+    zip64Locator.writeUInt32LE(1, 16); // Number of disks
+
+    yield zip64End;
+    yield zip64Locator;
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Math.min(entryCount, maxUInt16), 8);
+  end.writeUInt16LE(Math.min(entryCount, maxUInt16), 10);
+  end.writeUInt32LE(Math.min(centralDirectory.length, maxUInt32), 12);
+  end.writeUInt32LE(Math.min(centralDirectoryOffset, maxUInt32), 16);
+  yield end;
+}
+
+// Writes a number that may exceed 32 bits, which is exact up to Number.MAX_SAFE_INTEGER
+const writeUInt64LE = (buffer: Buffer, value: number, offset: number) => {
+  buffer.writeUInt32LE(value % 0x100000000, offset);
+  buffer.writeUInt32LE(Math.floor(value / 0x100000000), offset + 4);
+};
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// Continues the CRC-32 checksum with the next chunk of data
+const updateCrc32 = (crc: number, data: Uint8Array) => {
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc >>> 0;
+};
@@ -0,0 +1,178 @@
+// @vitest-environment jsdom
+import { Writable } from 'stream';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { OfflinePreview } from '../utility/offlinePreview';
+import { PreviewSync } from '../utility/previewSync';
+import { duplicateSlide, removeSlide } from '../utility/slides';
+import { alignBackgroundMusic, getContentDuration, setBackgroundMusic } from '../utility/backgroundMusic';
+import { defaultOutputOptions } from '../utility/outputOptions';
+
+// Runs the editor and the render routes in offline mode, as the app does when NEXT_PUBLIC_OFFLINE_MODE is 'true'
+// The routes are called directly, with the request and response objects reduced to what they use
+
+let dataDirectory: string;
+
+beforeAll(async () => {
+  dataDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'video-preview-demo-'));
+  vi.stubEnv('NEXT_PUBLIC_OFFLINE_MODE', 'true');
+  vi.stubEnv('DATA_DIR', dataDirectory);
+  vi.stubEnv('STORE', 'memory');
+  vi.stubEnv('AUTH_SECRET', '');
+  vi.stubEnv('PUBLIC_URL', '');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dataDirectory, { recursive: true, force: true });
+});
+
+describe('the offline editor', () => {
+  it('edits the slides of the template and renders the video', async () => {
+    const preview = new OfflinePreview(document.createElement('div'));
+    await preview.loadTemplate();
+
+    const template = { source: preview.getSource(), modifications: {} };
+    const sync = new PreviewSync(preview, template);
+    const templateDuration = preview.state.duration;
+
+    // Duplicate the first slide along with the text that was entered for it
+    const edit = duplicateSlide(template.source, { 'Slide-1-Text': 'Hello' }, 'Slide-1');
+    sync.update(edit);
+    await sync.flush();
+
+    const texts = preview.getElements().filter((element) => /^Slide-\d-Text$/.test(element.source.name));
+    expect(texts.map((element) => [element.source.name, element.source.text])).toEqual([
+      ['Slide-1-Text', 'Hello'],
+      ['Slide-2-Text', 'Hello'],
+      ['Slide-3-Text', 'Caption 2'],
+      ['Slide-4-Text', 'Caption 3'],
+    ]);
+    expect(preview.state.duration).toBeGreaterThan(templateDuration);
+
+    // The music spans the video, also after a slide has been removed
+    const music = {
+      url: 'https://creatomate-static.s3.amazonaws.com/demo/music.mp3',
+      trimStart: 0,
+      volume: 80,
+      fadeOut: 2,
+    };
+    sync.update({ ...edit, source: setBackgroundMusic(edit.source, music, getContentDuration(preview.state)) });
+    await sync.flush();
+
+    const findMusic = () => preview.getElements().find((element) => element.source.name === 'Background-Music');
+    const initialMusicDuration = findMusic()?.duration;
+
+    const removal = removeSlide(preview.getSource(), edit.modifications, 'Slide-4');
+    sync.update(removal);
+    await sync.flush();
+
+    const alignedSource = alignBackgroundMusic(removal.source, preview.state);
+    expect(alignedSource).toBeDefined();
+    sync.update({ ...removal, source: alignedSource! });
+    await sync.flush();
+
+    expect(findMusic()?.duration).toBeCloseTo(getContentDuration(preview.state));
+    expect(findMusic()?.duration).toBeLessThan(initialMusicDuration!);
+
+    // Render the video as the create button does, and download it once it has finished
+    const { default: videosHandler } = await import('../pages/api/videos');
+    const { default: videoHandler } = await import('../pages/api/videos/[id]');
+    const { default: downloadHandler } = await import('../pages/api/videos/[id]/download');
+
+    const started = await callRoute(videosHandler, {
+      method: 'POST',
+      body: {
+        source: preview.getSource(),
+        output: defaultOutputOptions,
+        title: 'Offline video',
+        modifications: removal.modifications,
+      },
+    });
+    expect(started.status).toBe(202);
+    const { id } = started.json();
+
+    const status = await callRoute(videoHandler, { method: 'GET', query: { id } });
+    expect(status.status).toBe(200);
+    expect(status.json()).toMatchObject({ id, status: 'succeeded', title: 'Offline video' });
+
+    const download = await callRoute(downloadHandler, { method: 'GET', query: { id } });
+    expect(download.status).toBe(200);
+    expect(download.headers['content-disposition']).toMatch(/^attachment; filename="offline-video-[\d-]+\.mp4"$/);
+
+    // The placeholder describes the render, including the source that the preview showed
+    const placeholder = download.json();
+    expect(placeholder).toMatchObject({ placeholder: true, id });
+    expect(JSON.stringify(placeholder.source)).toContain('"text":"Hello"');
+
+    const list = await callRoute(videosHandler, { method: 'GET' });
+    expect(list.json().map((job: any) => job.id)).toEqual([id]);
+  });
+
+  it('rejects sources with assets from other hosts', async () => {
+    const { default: videosHandler } = await import('../pages/api/videos');
+
+    const response = await callRoute(videosHandler, {
+      method: 'POST',
+      body: {
+        source: { width: 1280, height: 720, elements: [{ type: 'image', source: 'http://169.254.169.254/' }] },
+        output: defaultOutputOptions,
+      },
+    });
+
+    expect(response.status).toBe(422);
+    expect(response.json().error.code).toBe('validation_failed');
+  });
+});
+
+// Calls an API route, resolving once the response has been sent
+const callRoute = async (
+  handler: NextApiHandler,
+  request: { method: string; query?: Record<string, string>; body?: unknown },
+) => {
+  const req = {
+    method: request.method,
+    query: request.query ?? {},
+    body: request.body ?? {},
+    headers: {},
+    cookies: {},
+    socket: { remoteAddress: '127.0.0.1' },
+  };
+
+  const chunks: Buffer[] = [];
+  const res = Object.assign(
+    new Writable({
+      write(chunk, encoding, callback) {
+        chunks.push(Buffer.from(chunk));
+        callback();
+      },
+    }),
+    {
+      statusCode: 200,
+      headers: {} as Record<string, unknown>,
+      status(statusCode: number) {
+        res.statusCode = statusCode;
+        return res;
+      },
+      setHeader(name: string, value: unknown) {
+        res.headers[name.toLowerCase()] = value;
+        return res;
+      },
+      json(body: unknown) {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body));
+      },
+    },
+  );
+
+  await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  if (!res.writableFinished) {
+    await new Promise((resolve) => res.once('finish', resolve));
+  }
+
+  const body = Buffer.concat(chunks);
+  return { status: res.statusCode, headers: res.headers, json: () => JSON.parse(body.toString()) };
+};
@@ -0,0 +1,91 @@
+// Error responses of the API routes, in the format { error: { code, message, details } }
+// This module is shared by the client and server, so that both agree on the error codes
+
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'insufficient_credits'
+  | 'quota_exceeded'
+  | 'forbidden'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'file_too_large'
+  | 'unsupported_media_type'
+  | 'range_not_satisfiable'
+  | 'validation_failed'
+  | 'rate_limited'
+  | 'not_configured'
+  | 'render_failed'
+  | 'service_unavailable';
+
+export const apiErrorStatuses: Record<ApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  insufficient_credits: 402,
+  quota_exceeded: 403,
+  forbidden: 403,
+  not_found: 404,
+  method_not_allowed: 405,
+  file_too_large: 413,
+  unsupported_media_type: 415,
+  range_not_satisfiable: 416,
+  validation_failed: 422,
+  rate_limited: 429,
+  not_configured: 500,
+  render_failed: 502,
+  service_unavailable: 503,
+};
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    // Depends on the code, e.g. the list of problems for 'validation_failed' or the seconds to wait for 'rate_limited'
+    details?: any;
+  };
+}
+
+// Thrown by the API clients in this directory when a request fails
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly details?: any;
+
+  constructor(status: number, code: ApiErrorCode, message: string, details?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
+
+// Whether trying again later may succeed, such as when the connection was interrupted or the rate limit was reached
+export function isRetryable(error: unknown) {
+  if (error instanceof ApiError) {
+    return error.code === 'rate_limited' || error.code === 'service_unavailable' || error.code === 'render_failed';
+  }
+
+  // Fetch throws a TypeError when the server can't be reached
+  return error instanceof TypeError;
+}
+
+// Creates an error from a failed response, also when the body isn't in the expected format
+export async function readApiError(response: Response) {
+  const body: Partial<ApiErrorBody> | undefined = await response.json().catch(() => undefined);
+  if (body?.error?.code && body.error.message) {
+    return new ApiError(response.status, body.error.code, body.error.message, body.error.details);
+  }
+
+  const code = (Object.keys(apiErrorStatuses) as ApiErrorCode[]).find(
+    (code) => apiErrorStatuses[code] === response.status,
+  );
+  return new ApiError(
+    response.status,
+    code ?? (response.status >= 500 ? 'service_unavailable' : 'invalid_request'),
+    `The request failed with status code ${response.status}`,
+  );
+}
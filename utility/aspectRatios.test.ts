@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { aspectRatios, baseLayoutProperty, convertAspectRatio } from './aspectRatios';
+
+const [landscape, portrait, square] = aspectRatios;
+
+const image = { name: 'Slide-1-Image', type: 'image', width: '100%' };
+
+const source = {
+  width: 1920,
+  height: 1080,
+  elements: [
+    {
+      name: 'Slide-1',
+      type: 'composition',
+      elements: [image, { name: 'Slide-1-Text', type: 'text', y: '83.3107%', width: '70%', height: '10%' }],
+    },
+    { name: 'Title', type: 'text', x: 960, y: '0%', width: '20%' },
+  ],
+};
+
+const findElement = (source: Record<string, any>, name: string) =>
+  [...source.elements, ...source.elements[0].elements].find((element: any) => element.name === name);
+
+describe('convertAspectRatio', () => {
+  it('keeps the shorter side of the video', () => {
+    expect(convertAspectRatio(source, portrait)).toMatchObject({ width: 1080, height: 1920 });
+    expect(convertAspectRatio(source, square)).toMatchObject({ width: 1080, height: 1080 });
+  });
+
+  it('fits the text within the video and the safe area of the format', () => {
+    const converted = convertAspectRatio(source, portrait);
+
+    expect(findElement(converted, 'Slide-1-Text')).toMatchObject({ y: '66.9851%', width: '90%', height: '5.625%' });
+    expect(findElement(converted, 'Title')).toMatchObject({ x: '50%', y: '12%', width: '35.5556%' });
+    expect(findElement(converted, 'Slide-1-Image')).toEqual(image);
+  });
+
+  it('converts from the layout the text was designed in, when the format is changed again', () => {
+    const portraitSource = convertAspectRatio(source, portrait);
+    const squareSource = convertAspectRatio(portraitSource, square);
+
+    expect(findElement(squareSource, 'Slide-1-Text')).toMatchObject(
+      findElement(convertAspectRatio(source, square), 'Slide-1-Text'),
+    );
+    expect(convertAspectRatio(convertAspectRatio(portraitSource, landscape), portrait)).toEqual(portraitSource);
+  });
+
+  it('restores the text exactly when switching back to the original format', () => {
+    const restored = convertAspectRatio(convertAspectRatio(convertAspectRatio(source, portrait), square), landscape);
+
+    expect(restored).toEqual(source);
+    expect(findElement(restored, 'Slide-1-Text')[baseLayoutProperty]).toBeUndefined();
+  });
+});
@@ -0,0 +1,171 @@
+import { deepClone } from './deepClone';
+
+// Formats the same video can be published in, such as YouTube (16:9), Reels (9:16) and the Instagram feed (1:1)
+export interface AspectRatio {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  // The vertical range in percent in which text is placed, keeping it clear of the overlays of social media apps
+  safeArea: [number, number];
+}
+
+export const aspectRatios: AspectRatio[] = [
+  { id: '16:9', label: 'Landscape', width: 16, height: 9, safeArea: [0, 100] },
+  { id: '9:16', label: 'Portrait', width: 9, height: 16, safeArea: [12, 78] },
+  { id: '1:1', label: 'Square', width: 1, height: 1, safeArea: [0, 100] },
+];
+
+// Returns the aspect ratio that matches the provided dimensions, if any
+export function findAspectRatio(width: number, height: number) {
+  return aspectRatios.find((aspectRatio) => Math.abs(width / height - aspectRatio.width / aspectRatio.height) < 0.01);
+}
+
+// The position and size of a text element in the format it was designed in, along with the dimensions of that format
+// It's kept on the element once it has been converted, so that switching formats back and forth doesn't change the text
+interface BaseLayout {
+  video_width: number;
+  video_height: number;
+  x?: unknown;
+  y?: unknown;
+  width?: unknown;
+  height?: unknown;
+}
+
+// The property of text elements that holds their BaseLayout, which is removed from the source before rendering
+export const baseLayoutProperty = 'base_layout';
+
+const layoutProperties = ['x', 'y', 'width', 'height'] as const;
+
+// Returns a copy of the source in the provided aspect ratio, with the text elements placed to fit the new dimensions
+// The shorter side of the video stays the same, so that 1920x1080 becomes 1080x1920 in portrait and 1080x1080 in square
+export function convertAspectRatio(source: Record<string, any>, aspectRatio: AspectRatio): Record<string, any> {
+  source = deepClone(source);
+
+  const oldWidth = Number(source.width) || 1920;
+  const oldHeight = Number(source.height) || 1080;
+  const shortSide = Math.min(oldWidth, oldHeight);
+  const scale = shortSide / Math.min(aspectRatio.width, aspectRatio.height);
+
+  const newWidth = Math.round((aspectRatio.width * scale) / 2) * 2;
+  const newHeight = Math.round((aspectRatio.height * scale) / 2) * 2;
+
+  const visit = (elements: Record<string, any>[]) => {
+    for (const element of elements) {
+      if (element.type === 'text') {
+        convertText(element, oldWidth, oldHeight, newWidth, newHeight, aspectRatio);
+      }
+      if (element.elements) {
+        visit(element.elements);
+      }
+    }
+  };
+
+  visit(source.elements);
+  source.width = newWidth;
+  source.height = newHeight;
+
+  return source;
+}
+
+// Converts the text from the layout it was designed in, rather than from the format it's currently in
+const convertText = (
+  element: Record<string, any>,
+  oldWidth: number,
+  oldHeight: number,
+  newWidth: number,
+  newHeight: number,
+  aspectRatio: AspectRatio,
+) => {
+  const baseLayout: BaseLayout = element[baseLayoutProperty] ?? {
+    video_width: oldWidth,
+    video_height: oldHeight,
+    ...Object.fromEntries(layoutProperties.map((property) => [property, element[property]])),
+  };
+
+  for (const property of layoutProperties) {
+    if (baseLayout[property] === undefined) {
+      delete element[property];
+    } else {
+      element[property] = baseLayout[property];
+    }
+  }
+
+  // Back in the format it was designed in, the text is restored exactly
+  const baseAspectRatio = findAspectRatio(baseLayout.video_width, baseLayout.video_height);
+  if (baseAspectRatio?.id === aspectRatio.id) {
+    delete element[baseLayoutProperty];
+    return;
+  }
+
+  element[baseLayoutProperty] = baseLayout;
+  repositionText(
+    element,
+    baseLayout.video_width,
+    baseLayout.video_height,
+    newWidth,
+    newHeight,
+    baseAspectRatio?.safeArea ?? [0, 100],
+    aspectRatio.safeArea,
+  );
+};
+
+// The box of the text keeps its size in pixels relative to the shorter side, while its position stays relative to the video
+const repositionText = (
+  element: Record<string, any>,
+  oldWidth: number,
+  oldHeight: number,
+  newWidth: number,
+  newHeight: number,
+  oldSafeArea: [number, number],
+  newSafeArea: [number, number],
+) => {
+  const sizeScale = Math.min(newWidth, newHeight) / Math.min(oldWidth, oldHeight);
+
+  const width = toPercentage(element.width, oldWidth);
+  if (width !== undefined) {
+    element.width = formatPercentage(fitSize(width, (width * oldWidth * sizeScale) / newWidth));
+  }
+
+  const height = toPercentage(element.height, oldHeight);
+  if (height !== undefined) {
+    element.height = formatPercentage(fitSize(height, (height * oldHeight * sizeScale) / newHeight));
+  }
+
+  const x = toPercentage(element.x, oldWidth);
+  if (x !== undefined) {
+    element.x = formatPercentage(x);
+  }
+
+  // Map the vertical position from the safe area of the old format onto that of the new format
+  const y = toPercentage(element.y, oldHeight);
+  if (y !== undefined) {
+    const [oldTop, oldBottom] = oldSafeArea;
+    const [newTop, newBottom] = newSafeArea;
+    element.y = formatPercentage(newTop + ((y - oldTop) / (oldBottom - oldTop)) * (newBottom - newTop));
+  }
+};
+
+// Growing boxes are kept within 90% of the video, so that texts don't touch its edges
+const fitSize = (oldSize: number, newSize: number) =>
+  newSize > oldSize ? Math.min(newSize, Math.max(oldSize, 90)) : newSize;
+
+// Converts a position or size to a percentage of the provided dimension, refer to: https://creatomate.com/docs/json/units
+const toPercentage = (value: unknown, dimension: number) => {
+  if (typeof value === 'number') {
+    return (value / dimension) * 100;
+  }
+
+  if (typeof value === 'string') {
+    const number = parseFloat(value);
+    if (value.trim().endsWith('%')) {
+      return number;
+    } else if (/^-?[\d.]+\s*(px)?$/.test(value.trim())) {
+      return (number / dimension) * 100;
+    }
+  }
+
+  return undefined;
+};
+
+const formatPercentage = (value: number) => `${Math.round(value * 10000) / 10000}%`;
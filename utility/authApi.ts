@@ -0,0 +1,36 @@
+import type { Quota } from '../server/quota';
+import { readApiError } from './apiErrors';
+
+export interface Session {
+  authEnabled: boolean;
+  user?: { id: string; name: string };
+  quota?: Quota;
+}
+
+export async function fetchSession(): Promise<Session> {
+  // A 401 response still describes the session, i.e. that authentication is enabled but nobody is signed in
+  const response = await fetch('/api/auth/me');
+  if (!response.ok && response.status !== 401) {
+    throw await readApiError(response);
+  }
+
+  return await response.json();
+}
+
+export async function login(username: string, password: string) {
+  const response = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ username, password }),
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+}
+
+export async function logout() {
+  await fetch('/api/auth/logout', { method: 'POST' });
+}
@@ -0,0 +1,99 @@
+import { PreviewState } from '@creatomate/preview';
+import { deepClone } from './deepClone';
+
+// A music track that plays underneath the entire video
+// For the audio properties, refer to: https://creatomate.com/docs/json/elements/audio-element
+export interface BackgroundMusic {
+  url: string;
+  // The time in seconds in the track at which the music starts
+  trimStart: number;
+  // In percent
+  volume: number;
+  // The duration in seconds of the fade-out at the end of the video
+  fadeOut: number;
+}
+
+export const defaultMusicSettings: Omit<BackgroundMusic, 'url'> = {
+  trimStart: 0,
+  volume: 80,
+  fadeOut: 2,
+};
+
+// The name of the element that is added to the video for the music
+export const musicElementName = 'Background-Music';
+
+export function getBackgroundMusic(state: PreviewState): BackgroundMusic | undefined {
+  const element = state.elements.find((element) => element.source.name === musicElementName);
+  if (!element) {
+    return undefined;
+  }
+
+  return {
+    url: element.source.source,
+    trimStart: parseFloat(element.source.trim_start) || 0,
+    volume: parseFloat(element.source.volume ?? '100%'),
+    fadeOut: parseFloat(element.source.audio_fade_out) || 0,
+  };
+}
+
+// Returns a copy of the source with the music added, replaced, or removed when undefined
+export function setBackgroundMusic(
+  source: Record<string, any>,
+  music: BackgroundMusic | undefined,
+  duration: number,
+): Record<string, any> {
+  source = deepClone(source);
+  source.elements = source.elements.filter((element: any) => element.name !== musicElementName);
+
+  if (music) {
+    const track = Math.max(0, ...source.elements.map((element: any) => element.track ?? 1)) + 1;
+    source.elements.push({
+      name: musicElementName,
+      type: 'audio',
+      track,
+      time: 0,
+      duration,
+      source: music.url,
+      trim_start: music.trimStart,
+      volume: `${music.volume}%`,
+      audio_fade_out: music.fadeOut,
+      // Short tracks are repeated until the end of the video
+      loop: true,
+    });
+  }
+
+  return source;
+}
+
+// Returns the length of the video without the music, which the music is made to span
+export function getContentDuration(state: PreviewState) {
+  let duration = 0;
+
+  for (const element of state.elements) {
+    // Elements without a duration, such as a logo, last until the end of the video rather than determining its length
+    const stretches = element.source.duration === undefined && element.source.type !== 'composition';
+    if (element.source.name !== musicElementName && !stretches) {
+      duration = Math.max(duration, element.globalTime + element.duration);
+    }
+  }
+
+  return duration || state.duration;
+}
+
+// Returns an updated source when the length of the video has changed, e.g. because slides were added or removed
+export function alignBackgroundMusic(source: Record<string, any>, state: PreviewState) {
+  const element = state.elements.find((element) => element.source.name === musicElementName);
+  const duration = getContentDuration(state);
+  if (!element || Math.abs(element.duration - duration) < 0.01) {
+    return undefined;
+  }
+
+  source = deepClone(source);
+  const musicSource = source.elements.find((element: any) => element.name === musicElementName);
+  if (musicSource) {
+    musicSource.duration = duration;
+    musicSource.time = 0;
+  }
+
+  return source;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseBatchData } from './batchData';
+
+describe('parseBatchData', () => {
+  it('maps the header row of a CSV file to the values of each row', () => {
+    const csv = 'Title,Slide-1-Image, Slide-1-Text.background_border_radius \nIntro,https://creatomate.com/a.jpg,50%\n';
+
+    expect(parseBatchData('data.csv', csv)).toEqual([
+      {
+        Title: 'Intro',
+        'Slide-1-Image': 'https://creatomate.com/a.jpg',
+        'Slide-1-Text.background_border_radius': '50%',
+      },
+    ]);
+  });
+
+  it('reads quoted values that contain commas, quotes, and line breaks', () => {
+    const csv = 'Title,Slide-1-Text\r\n"Hello, world","She said ""hi""\r\non two lines"\r\n';
+
+    expect(parseBatchData('data.csv', csv)).toEqual([
+      { Title: 'Hello, world', 'Slide-1-Text': 'She said "hi"\r\non two lines' },
+    ]);
+  });
+
+  it('leaves out empty cells and skips empty lines', () => {
+    const csv = 'Title,Slide-1-Text\n\nFirst,\n,Second\n,\n';
+
+    expect(parseBatchData('data.csv', csv)).toEqual([{ Title: 'First' }, { 'Slide-1-Text': 'Second' }]);
+  });
+
+  it('reads a final row without a line break', () => {
+    expect(parseBatchData('data.csv', 'Title\nLast')).toEqual([{ Title: 'Last' }]);
+  });
+
+  it('throws when there are no rows after the header', () => {
+    expect(() => parseBatchData('data.csv', 'Title,Slide-1-Text\n')).toThrow('The file does not contain any rows.');
+  });
+
+  it('reads a JSON file as an array of objects, converting the values to strings', () => {
+    const json = JSON.stringify([{ Title: 'First', 'Slide-1-Text.font_size': 24, 'Slide-1-Image': null }]);
+
+    expect(parseBatchData('data.JSON', json)).toEqual([{ Title: 'First', 'Slide-1-Text.font_size': '24' }]);
+  });
+
+  it('throws when the JSON file does not contain an array of objects', () => {
+    expect(() => parseBatchData('data.json', '{"Title":"First"}')).toThrow(
+      'The JSON file must contain an array of objects.',
+    );
+  });
+});
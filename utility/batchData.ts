@@ -0,0 +1,135 @@
+import { OutputOptions } from './outputOptions';
+import { readApiError } from './apiErrors';
+import { isObject } from './isObject';
+
+// A row of a data file, mapping selectors such as 'Title', 'Slide-1-Image', or 'Slide-1-Text.background_border_radius' to their values
+export type BatchRow = Record<string, string>;
+
+export interface BatchStatus {
+  id: string;
+  title: string;
+  createdAt: string;
+  rows: { index: number; status: string; errorMessage?: string; downloadUrl?: string }[];
+}
+
+// Reads a CSV file with a header row of selectors, or a JSON file containing an array of objects
+export function parseBatchData(fileName: string, text: string): BatchRow[] {
+  const rows = /\.json$/i.test(fileName) ? parseJson(text) : parseCsv(text);
+  if (rows.length === 0) {
+    throw new Error('The file does not contain any rows.');
+  }
+
+  return rows;
+}
+
+const parseJson = (text: string): BatchRow[] => {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data) || !data.every(isObject)) {
+    throw new Error('The JSON file must contain an array of objects.');
+  }
+
+  return data.map((row) => {
+    const values: BatchRow = {};
+    for (const [selector, value] of Object.entries(row)) {
+      if (value !== null && value !== undefined) {
+        values[selector] = String(value);
+      }
+    }
+    return values;
+  });
+};
+
+const parseCsv = (text: string): BatchRow[] => {
+  const [header, ...records] = readCsvRecords(text).filter((record) => record.some((value) => value.trim()));
+  if (!header) {
+    return [];
+  }
+
+  const selectors = header.map((selector) => selector.trim());
+
+  return records.map((record) => {
+    const values: BatchRow = {};
+    selectors.forEach((selector, i) => {
+      // Empty cells keep the value of the editor
+      if (selector && record[i]) {
+        values[selector] = record[i];
+      }
+    });
+    return values;
+  });
+};
+
+// Splits CSV text into records as described in RFC 4180, supporting quoted values that contain commas and line breaks
+const readCsvRecords = (text: string) => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(value);
+      records.push(record);
+      record = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || record.length > 0) {
+    record.push(value);
+    records.push(record);
+  }
+
+  return records;
+};
+
+export async function startBatch(batch: {
+  source: Record<string, any>;
+  templateId: string;
+  modifications: Record<string, any>;
+  rows: BatchRow[];
+  output: OutputOptions;
+  title?: string;
+}): Promise<BatchStatus> {
+  const response = await fetch('/api/batches', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(batch),
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  return await response.json();
+}
+
+export async function fetchBatch(id: string): Promise<BatchStatus> {
+  const response = await fetch(`/api/batches/${encodeURIComponent(id)}`);
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  return await response.json();
+}
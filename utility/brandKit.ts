@@ -0,0 +1,139 @@
+import { deepClone } from './deepClone';
+
+// The fonts, colors, and logo that are applied to the whole video
+// This module is shared by the client and server, so that both agree on which values are allowed
+export interface BrandKitStyle {
+  // The background color of text elements that have a background, as #rrggbb
+  primaryColor: string;
+  // The color of the text itself, as #rrggbb
+  secondaryColor: string;
+  fontFamily: string;
+  fontWeight: string;
+  // The URL of an image that is shown as a watermark on top of the entire video
+  logoUrl?: string;
+  logoPosition: LogoPosition;
+}
+
+export type LogoPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export const logoPositions: LogoPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+// The style of the "Image Slideshow w/ Intro and Outro" template
+export const defaultBrandKitStyle: BrandKitStyle = {
+  primaryColor: '#dcab5e',
+  secondaryColor: '#ffffff',
+  fontFamily: 'Roboto Condensed',
+  fontWeight: '700',
+  logoPosition: 'top-right',
+};
+
+// Fonts that are available in Creatomate, refer to: https://creatomate.com/docs/json/elements/text-element
+export const fontFamilies = [
+  'Roboto Condensed',
+  'Roboto',
+  'Open Sans',
+  'Montserrat',
+  'Lato',
+  'Oswald',
+  'Poppins',
+  'Raleway',
+  'Playfair Display',
+  'Merriweather',
+];
+
+export const fontWeights = ['300', '400', '500', '700', '900'];
+
+// The name of the element that is added to the video for the logo
+export const logoElementName = 'Brand-Logo';
+
+// Returns the list of problems with the provided style, which is empty when it is valid
+export function validateBrandKitStyle(style: any): string[] {
+  if (typeof style !== 'object' || style === null) {
+    return ['The brand kit must be an object.'];
+  }
+
+  const errors: string[] = [];
+
+  for (const property of ['primaryColor', 'secondaryColor']) {
+    if (typeof style[property] !== 'string' || !/^#[0-9a-f]{6}$/i.test(style[property])) {
+      errors.push(`The ${property} must be a color in the #rrggbb format.`);
+    }
+  }
+
+  if (!fontFamilies.includes(style.fontFamily)) {
+    errors.push(`The font family must be one of: ${fontFamilies.join(', ')}.`);
+  }
+
+  if (!fontWeights.includes(style.fontWeight)) {
+    errors.push(`The font weight must be one of: ${fontWeights.join(', ')}.`);
+  }
+
+  if (style.logoUrl !== undefined && (typeof style.logoUrl !== 'string' || !/^https?:\/\//.test(style.logoUrl))) {
+    errors.push('The logo must be an http or https URL.');
+  }
+
+  if (!logoPositions.includes(style.logoPosition)) {
+    errors.push(`The logo position must be one of: ${logoPositions.join(', ')}.`);
+  }
+
+  return errors;
+}
+
+// Returns a copy of the source with the brand kit applied to every text element, and the logo added or removed
+export function applyBrandKit(source: Record<string, any>, style: BrandKitStyle): Record<string, any> {
+  source = deepClone(source);
+
+  const visit = (elements: Record<string, any>[]) => {
+    for (const element of elements) {
+      if (element.type === 'text') {
+        applyTextStyle(element, style);
+      }
+      if (element.elements) {
+        visit(element.elements);
+      }
+    }
+  };
+
+  source.elements = source.elements.filter((element: any) => element.name !== logoElementName);
+  visit(source.elements);
+
+  if (style.logoUrl) {
+    source.elements.push(createLogo(source, style.logoUrl, style.logoPosition));
+  }
+
+  return source;
+}
+
+export function applyTextStyle(element: Record<string, any>, style: BrandKitStyle) {
+  element.font_family = style.fontFamily;
+  element.font_weight = style.fontWeight;
+  element.fill_color = style.secondaryColor;
+
+  // Only texts that are designed with a background get the primary color
+  if (element.background_color) {
+    element.background_color = style.primaryColor;
+  }
+}
+
+const createLogo = (source: Record<string, any>, url: string, position: LogoPosition) => {
+  const [vertical, horizontal] = position.split('-');
+  const x = horizontal === 'left' ? 0 : 100;
+  const y = vertical === 'top' ? 0 : 100;
+
+  // The logo is placed on a track above all other elements, without a duration so that it lasts the entire video
+  const track = Math.max(0, ...source.elements.map((element: any) => element.track ?? 1)) + 1;
+
+  return {
+    name: logoElementName,
+    type: 'image',
+    track,
+    x: `${5 + x * 0.9}%`,
+    y: `${5 + y * 0.9}%`,
+    width: '15%',
+    height: '15%',
+    x_alignment: `${x}%`,
+    y_alignment: `${y}%`,
+    fit: 'contain',
+    source: url,
+  };
+};
@@ -0,0 +1,33 @@
+import type { BrandKit } from '../server/brandKitStore';
+import { BrandKitStyle } from './brandKit';
+import { readApiError } from './apiErrors';
+
+export async function listBrandKits(): Promise<BrandKit[]> {
+  return await request('/api/brand-kits');
+}
+
+export async function createBrandKit(brandKit: BrandKitStyle & { name: string }): Promise<BrandKit> {
+  return await request('/api/brand-kits', 'POST', brandKit);
+}
+
+export async function updateBrandKit(id: string, brandKit: BrandKitStyle & { name: string }): Promise<BrandKit> {
+  return await request(`/api/brand-kits/${encodeURIComponent(id)}`, 'PUT', brandKit);
+}
+
+export async function deleteBrandKit(id: string) {
+  await request(`/api/brand-kits/${encodeURIComponent(id)}`, 'DELETE');
+}
+
+const request = async (url: string, method = 'GET', body?: any) => {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  return response.status === 204 ? undefined : await response.json();
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { applyChange, Change, getChanges, isChange } from './collaboration';
+
+const source = { elements: [{ name: 'Title', type: 'text' }] };
+
+describe('applyChange', () => {
+  it('sets and removes modifications, keeping the source object', () => {
+    const snapshot = { source, modifications: { Title: 'Hello' } };
+
+    const changed = applyChange(snapshot, { type: 'modification', selector: 'Subtitle', value: 'World' });
+    expect(changed).toEqual({ source, modifications: { Title: 'Hello', Subtitle: 'World' } });
+    expect(changed.source).toBe(source);
+
+    expect(applyChange(changed, { type: 'modification', selector: 'Title', value: ' ' })).toEqual({
+      source,
+      modifications: { Subtitle: 'World' },
+    });
+  });
+
+  it('returns the same snapshot when an absent modification is removed', () => {
+    const snapshot = { source, modifications: {} };
+
+    expect(applyChange(snapshot, { type: 'modification', selector: 'Title', value: '' })).toBe(snapshot);
+  });
+
+  it('replaces the source, keeping the modifications', () => {
+    const newSource = { elements: [] };
+    const change: Change = { type: 'source', source: newSource };
+
+    expect(applyChange({ source, modifications: { Title: 'Hello' } }, change)).toEqual({
+      source: newSource,
+      modifications: { Title: 'Hello' },
+    });
+  });
+});
+
+describe('getChanges', () => {
+  it('returns a change for every modification that was set, changed, or removed', () => {
+    const previous = { source, modifications: { Title: 'Hello', Subtitle: 'World', Logo: 'logo.png' } };
+    const next = { source, modifications: { Title: 'Hi', Logo: 'logo.png', Footer: 'Bye' } };
+
+    expect(getChanges(previous, next)).toEqual([
+      { type: 'modification', selector: 'Title', value: 'Hi' },
+      { type: 'modification', selector: 'Subtitle', value: '' },
+      { type: 'modification', selector: 'Footer', value: 'Bye' },
+    ]);
+  });
+
+  it('returns the changed source along with only the modifications that changed', () => {
+    const next = { source: { ...source }, modifications: { Title: 'Hello', Subtitle: 'World' } };
+
+    expect(getChanges({ source, modifications: { Title: 'Hello' } }, next)).toEqual([
+      { type: 'source', source: next.source },
+      { type: 'modification', selector: 'Subtitle', value: 'World' },
+    ]);
+  });
+
+  it('returns changes that turn the previous state into the next one', () => {
+    const previous = { source, modifications: { Title: 'Hello', Subtitle: 'World' } };
+    const next = { source, modifications: { Title: 'Hello there' } };
+
+    expect(getChanges(previous, next).reduce(applyChange, previous)).toEqual(next);
+  });
+
+  it('lets concurrent changes of different fields both take effect, whatever order they are applied in', () => {
+    const initial = { source, modifications: { Title: 'Hello' } };
+    const [first] = getChanges(initial, { source, modifications: { Title: 'Hi' } });
+    const [second] = getChanges(initial, { source, modifications: { Title: 'Hello', Subtitle: 'World' } });
+
+    const expected = { source, modifications: { Title: 'Hi', Subtitle: 'World' } };
+    expect([first, second].reduce(applyChange, initial)).toEqual(expected);
+    expect([second, first].reduce(applyChange, initial)).toEqual(expected);
+  });
+
+  it('keeps the fields that others change at the same time as the source', () => {
+    const initial = { source, modifications: { Title: 'Hello' } };
+    const sourceChanges = getChanges(initial, {
+      source: { ...source, duration: 10 },
+      modifications: initial.modifications,
+    });
+    const fieldChanges = getChanges(initial, { source, modifications: { Title: 'Hi' } });
+
+    const state = [...fieldChanges, ...sourceChanges].reduce(applyChange, initial);
+    expect(state).toEqual({ source: { ...source, duration: 10 }, modifications: { Title: 'Hi' } });
+  });
+});
+
+describe('isChange', () => {
+  it('only accepts well-formed changes', () => {
+    expect(isChange({ type: 'modification', selector: 'Title', value: 'Hello' })).toBe(true);
+    expect(isChange({ type: 'source', source })).toBe(true);
+
+    expect(isChange({ type: 'modification', selector: 'Title', value: 1 })).toBe(false);
+    expect(isChange({ type: 'source', source: [] })).toBe(false);
+    expect(isChange(null)).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import type { EditSnapshot } from './editorStore';
+import { isObject } from './isObject';
+
+// Messages of the collaboration sessions, in which several people edit the same project at the same time
+// This module is shared by the client and server, so that both apply the changes in exactly the same way
+//
+// The server puts all changes of a session in a single order and sends every change to all clients, including the
+// one that made it. Each client applies the changes in that order, and reapplies its own changes that the server
+// hasn't confirmed yet on top. When two people change the same field at the same time, the change that reached the
+// server last wins for everyone.
+
+// Someone else in the session
+export interface Peer {
+  id: string;
+  name: string;
+  color: string;
+  // The element that the person is editing, as selected in the settings panel or timeline
+  elementName?: string;
+}
+
+export type Change =
+  // Sets the value of a property, or restores the value of the template when the value is empty
+  | { type: 'modification'; selector: string; value: string }
+  // Replaces the source, e.g. when a slide is added or the music is changed
+  // The modifications that change along with it, such as those of renamed slides, are sent as changes of their own, so
+  // that the fields that others change at the same time aren't overwritten
+  | { type: 'source'; source: Record<string, any> };
+
+export type ClientMessage =
+  // Sent once connected, the state of the client becomes the state of the session when it's the first to join
+  | { type: 'join'; source: Record<string, any>; modifications: Record<string, any> }
+  | { type: 'change'; change: Change }
+  | { type: 'focus'; elementName?: string };
+
+export type ServerMessage =
+  | { type: 'welcome'; clientId: string; source: Record<string, any>; modifications: Record<string, any> }
+  | { type: 'change'; clientId: string; change: Change }
+  | { type: 'presence'; peers: Peer[] };
+
+// Returns the state after the change, keeping the source object when it doesn't change
+export function applyChange(snapshot: EditSnapshot, change: Change): EditSnapshot {
+  if (change.type === 'source') {
+    return { source: change.source, modifications: snapshot.modifications };
+  }
+
+  const { [change.selector]: previousValue, ...modifications } = snapshot.modifications;
+  if (change.value.trim()) {
+    modifications[change.selector] = change.value;
+  } else if (previousValue === undefined) {
+    return snapshot;
+  }
+
+  return { source: snapshot.source, modifications };
+}
+
+// Returns the changes that turn one state into the other, which are sent to the other people in the session
+export function getChanges(previous: EditSnapshot, next: EditSnapshot): Change[] {
+  const changes: Change[] = next.source !== previous.source ? [{ type: 'source', source: next.source }] : [];
+
+  const selectors = new Set([...Object.keys(previous.modifications), ...Object.keys(next.modifications)]);
+  for (const selector of Array.from(selectors)) {
+    if (previous.modifications[selector] !== next.modifications[selector]) {
+      changes.push({ type: 'modification', selector, value: next.modifications[selector] ?? '' });
+    }
+  }
+
+  return changes;
+}
+
+export function isChange(value: any): value is Change {
+  return (
+    (value?.type === 'modification' && typeof value.selector === 'string' && typeof value.value === 'string') ||
+    (value?.type === 'source' && isObject(value.source))
+  );
+}
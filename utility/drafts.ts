@@ -0,0 +1,33 @@
+// A copy of the editor state kept in local storage, so that changes can be recovered after an unexpected reload
+export interface Draft {
+  templateId: string;
+  source: Record<string, any>;
+  modifications: Record<string, any>;
+  savedAt: string;
+}
+
+// Drafts are kept per project, or per template when the changes haven't been saved as a project yet
+export function getDraftKey(templateId: string, projectId?: string) {
+  return projectId ? `draft:project:${projectId}` : `draft:template:${templateId}`;
+}
+
+export function loadDraft(key: string): Draft | undefined {
+  try {
+    const json = window.localStorage.getItem(key);
+    return json ? JSON.parse(json) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+export function saveDraft(key: string, draft: Draft) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(draft));
+  } catch (error) {
+    // The storage quota may be exceeded by large sources, in which case no draft is kept
+  }
+}
+
+export function clearDraft(key: string) {
+  window.localStorage.removeItem(key);
+}
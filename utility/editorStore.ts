@@ -0,0 +1,152 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { PreviewState } from '@creatomate/preview';
+import { PreviewAdapter } from './previewAdapter';
+import { PreviewSync } from './previewSync';
+
+// Everything the user can change in the editor: the video source and the modifications applied to it
+// Refer to: https://creatomate.com/docs/api/rest-api/the-modifications-object
+export interface EditSnapshot {
+  source: Record<string, any>;
+  modifications: Record<string, any>;
+}
+
+export interface EditorStoreState extends EditSnapshot {
+  // The element that was last clicked in the timeline or focused in the settings panel
+  selectedElementName?: string;
+}
+
+export type EditorAction =
+  // Sets the value of a property, or restores the value of the template when the value is empty
+  | { type: 'setModification'; selector: string; value: string }
+  | { type: 'setSource'; source: Record<string, any> }
+  // Replaces both the source and the modifications, e.g. when slides are rearranged or a change is undone
+  | { type: 'replace'; snapshot: EditSnapshot }
+  | { type: 'select'; elementName?: string };
+
+// The state is never changed in place, so that the preview and the undo history can compare it by reference
+export function editorReducer(state: EditorStoreState, action: EditorAction): EditorStoreState {
+  switch (action.type) {
+    case 'setModification': {
+      const { [action.selector]: previousValue, ...modifications } = state.modifications;
+      if (action.value.trim()) {
+        modifications[action.selector] = action.value;
+      } else if (previousValue === undefined) {
+        return state;
+      }
+
+      return { ...state, modifications };
+    }
+    case 'setSource':
+      return { ...state, source: action.source };
+    case 'replace':
+      return { ...state, source: action.snapshot.source, modifications: action.snapshot.modifications };
+    case 'select':
+      return action.elementName === state.selectedElementName
+        ? state
+        : { ...state, selectedElementName: action.elementName };
+  }
+}
+
+export interface EditorStore {
+  state: EditorStoreState;
+  dispatch: (action: EditorAction) => void;
+  // Returns the latest state, also in callbacks that were created before the last change
+  getState: () => EditorStoreState;
+  // Starts editing what the preview currently shows, after a project or template has been opened
+  open: (preview: PreviewAdapter, snapshot: EditSnapshot) => void;
+  // Resolves once the preview shows the latest state, or throws when it couldn't be updated
+  flush: () => Promise<void>;
+  // Returns the state that the preview has computed from the source, such as the timing of the elements
+  getPreviewState: () => PreviewState | undefined;
+  // Loads another template, keeping the modifications of the elements that the new template has as well
+  loadTemplate: (templateId: string) => Promise<void>;
+}
+
+const initialState: EditorStoreState = { source: {}, modifications: {} };
+
+// Holds the state of the editor, which is applied to the preview whenever it changes
+// Create the store in the component that sets up the preview, and provide it to the editor with EditorContext
+// Changes that the preview fails to apply are passed to onError, unless they're flushed, in which case flush throws
+export function useEditorStore(onError?: (error: unknown) => void): EditorStore {
+  const [state, setState] = useState(initialState);
+  const syncRef = useRef<PreviewSync>();
+
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  // The reducer runs right away instead of on the next render, so that a change can be flushed to the preview directly
+  const stateRef = useRef(state);
+
+  const getState = useCallback(() => stateRef.current, []);
+
+  const dispatch = useCallback((action: EditorAction) => {
+    const previousState = stateRef.current;
+    const state = editorReducer(previousState, action);
+    if (state === previousState) {
+      return;
+    }
+
+    stateRef.current = state;
+    setState(state);
+
+    if (state.source !== previousState.source || state.modifications !== previousState.modifications) {
+      syncRef.current?.update({ source: state.source, modifications: state.modifications });
+    }
+  }, []);
+
+  const open = useCallback(
+    (preview: PreviewAdapter, snapshot: EditSnapshot) => {
+      syncRef.current?.dispose();
+      syncRef.current = new PreviewSync(preview, snapshot, (error) => onErrorRef.current?.(error));
+      dispatch({ type: 'replace', snapshot });
+    },
+    [dispatch],
+  );
+
+  useEffect(() => () => syncRef.current?.dispose(), []);
+
+  const flush = useCallback(async () => {
+    await syncRef.current?.flush();
+  }, []);
+
+  const getPreviewState = useCallback(() => syncRef.current?.preview.state, []);
+
+  const loadTemplate = useCallback(
+    async (templateId: string) => {
+      const sync = syncRef.current;
+      if (!sync) {
+        return;
+      }
+
+      await sync.flush();
+      await sync.preview.loadTemplate(templateId);
+
+      const elementNames = new Set(sync.preview.getElements().map((element) => element.source.name));
+      const modifications = Object.fromEntries(
+        Object.entries(stateRef.current.modifications).filter(([selector]) => elementNames.has(selector.split('.')[0])),
+      );
+      await sync.preview.setModifications(modifications);
+
+      const snapshot = { source: sync.preview.getSource(), modifications };
+      sync.adopt(snapshot);
+      dispatch({ type: 'replace', snapshot });
+    },
+    [dispatch],
+  );
+
+  return useMemo(
+    () => ({ state, dispatch, getState, open, flush, getPreviewState, loadTemplate }),
+    [state, dispatch, getState, open, flush, getPreviewState, loadTemplate],
+  );
+}
+
+export const EditorContext = createContext<EditorStore | undefined>(undefined);
+
+export function useEditor() {
+  const value = useContext(EditorContext);
+  if (!value) {
+    throw new Error('useEditor must be used within an EditorContext provider.');
+  }
+
+  return value;
+}
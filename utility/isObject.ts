@@ -0,0 +1,4 @@
+// Returns whether the value is a plain object such as a source or modifications, rather than an array or null
+export function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,77 @@
+import type { Upload } from '../server/uploadStore';
+import { readApiError } from './apiErrors';
+
+export type MediaType = Upload['type'];
+
+export interface MediaAsset {
+  url: string;
+  type: MediaType;
+}
+
+// Stock images that are always available in the media library
+export const stockAssets: MediaAsset[] = [
+  'https://creatomate-static.s3.amazonaws.com/demo/harshil-gudka-77zGnfU_SFU-unsplash.jpg',
+  'https://creatomate-static.s3.amazonaws.com/demo/samuel-ferrara-1527pjeb6jg-unsplash.jpg',
+  'https://creatomate-static.s3.amazonaws.com/demo/simon-berger-UqCnDyc_3vA-unsplash.jpg',
+].map((url) => ({ url, type: 'image' }));
+
+const recentAssetsKey = 'recentAssets';
+const maxRecentAssets = 12;
+
+// The uploads are requested once and shared by all media libraries on the page
+let uploadsPromise: Promise<Upload[]> | undefined;
+
+export function listUploads(): Promise<Upload[]> {
+  if (!uploadsPromise) {
+    uploadsPromise = fetch('/api/uploads').then(async (response) => {
+      if (!response.ok) {
+        throw await readApiError(response);
+      }
+      return ((await response.json()) as Upload[]).map(withAbsoluteUrl);
+    });
+
+    // Allow trying again later on
+    uploadsPromise.catch(() => (uploadsPromise = undefined));
+  }
+
+  return uploadsPromise;
+}
+
+export async function uploadFile(file: File): Promise<Upload> {
+  const response = await fetch('/api/uploads', {
+    method: 'POST',
+    headers: {
+      'Content-Type': file.type || 'application/octet-stream',
+      'X-File-Name': encodeURIComponent(file.name),
+    },
+    body: file,
+  });
+
+  if (!response.ok) {
+    // The server explains why the file was rejected, for example when it's too large
+    throw await readApiError(response);
+  }
+
+  uploadsPromise = undefined;
+  return withAbsoluteUrl(await response.json());
+}
+
+export function getRecentAssets(): MediaAsset[] {
+  try {
+    return JSON.parse(window.localStorage.getItem(recentAssetsKey) ?? '[]');
+  } catch (error) {
+    return [];
+  }
+}
+
+export function addRecentAsset(asset: MediaAsset) {
+  const recentAssets = [asset, ...getRecentAssets().filter((recentAsset) => recentAsset.url !== asset.url)];
+  window.localStorage.setItem(recentAssetsKey, JSON.stringify(recentAssets.slice(0, maxRecentAssets)));
+}
+
+// The server only knows its own address when PUBLIC_URL is set, otherwise the URLs of uploads are paths
+// The preview loads assets from another origin, so they're made absolute
+const withAbsoluteUrl = (upload: Upload): Upload => ({
+  ...upload,
+  url: new URL(upload.url, window.location.href).toString(),
+});
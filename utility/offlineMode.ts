@@ -0,0 +1,5 @@
+// When NEXT_PUBLIC_OFFLINE_MODE is 'true', the preview and renders are simulated locally rather than by Creatomate
+// This allows the app to be developed and tested end-to-end without API tokens or network access
+export function isOfflineMode() {
+  return process.env.NEXT_PUBLIC_OFFLINE_MODE === 'true';
+}
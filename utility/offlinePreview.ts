@@ -0,0 +1,302 @@
+import { CompositionState, ElementState, PreviewState } from '@creatomate/preview';
+import offlineTemplate from '../config/offlineTemplate.json';
+import { deepClone } from './deepClone';
+import type { PreviewAdapter } from './previewAdapter';
+
+// The rate at which the playback time advances, in frames per second
+const frameRate = 30;
+
+// Simulates the Preview SDK in offline mode, without connecting to Creatomate
+// The timing of the elements is calculated from the source, and the visible elements are drawn as plain HTML boxes
+export class OfflinePreview implements PreviewAdapter {
+  element: HTMLDivElement;
+
+  onReady?: () => void;
+  onLoad?: () => void;
+  onLoadComplete?: () => void;
+  onPlay?: () => void;
+  onPause?: () => void;
+  onTimeChange?: (time: number) => void;
+  onStateChange?: (state: PreviewState) => void;
+
+  private source: Record<string, any> = { width: 1920, height: 1080, elements: [] };
+  private modifications: Record<string, any> = {};
+  state = createState(this.source);
+  private time = 0;
+  private playInterval?: number;
+  private readonly screen: HTMLDivElement;
+
+  constructor(element: HTMLDivElement) {
+    this.element = element;
+
+    this.screen = document.createElement('div');
+    this.screen.dataset.offlinePreview = 'true';
+    Object.assign(this.screen.style, { position: 'relative', margin: 'auto', overflow: 'hidden' });
+    element.appendChild(this.screen);
+
+    // Like the SDK, the preview becomes ready asynchronously, after the event handlers have been set up
+    setTimeout(() => this.onReady?.());
+  }
+
+  dispose() {
+    window.clearInterval(this.playInterval);
+    this.screen.remove();
+  }
+
+  async setControls() {
+    // There are no controls to hide, the timeline is used instead
+  }
+
+  // Every template ID loads the local template in config/offlineTemplate.json
+  async loadTemplate() {
+    this.onLoad?.();
+    await this.setSource(offlineTemplate);
+    this.onLoadComplete?.();
+  }
+
+  async setSource(source: Record<string, any>) {
+    this.source = deepClone(source);
+    this.update();
+  }
+
+  // Like the SDK, the source is returned with the modifications applied
+  getSource() {
+    return deepClone(this.state.source);
+  }
+
+  getElements() {
+    return flattenElements(this.state.elements);
+  }
+
+  async setModifications(modifications: Record<string, any>) {
+    this.modifications = deepClone(modifications);
+    this.update();
+  }
+
+  async play() {
+    if (this.playInterval !== undefined) {
+      return;
+    }
+
+    if (this.time >= this.state.duration) {
+      await this.setTime(0);
+    }
+
+    this.playInterval = window.setInterval(() => {
+      const time = this.time + 1 / frameRate;
+      if (time >= this.state.duration) {
+        this.setTime(this.state.duration);
+        this.pause();
+      } else {
+        this.setTime(time);
+      }
+    }, 1000 / frameRate);
+
+    this.onPlay?.();
+  }
+
+  async pause() {
+    if (this.playInterval === undefined) {
+      return;
+    }
+
+    window.clearInterval(this.playInterval);
+    this.playInterval = undefined;
+    this.onPause?.();
+  }
+
+  async setTime(time: number) {
+    this.time = Math.min(Math.max(time, 0), this.state.duration);
+    this.draw();
+    this.onTimeChange?.(this.time);
+  }
+
+  async cacheAsset() {
+    // Assets aren't downloaded in offline mode, so there's nothing to cache
+  }
+
+  private update() {
+    this.state = createState(applyModifications(this.source, this.modifications));
+    this.time = Math.min(this.time, this.state.duration);
+    this.draw();
+    this.onStateChange?.(this.state);
+  }
+
+  // Draws the elements that are visible at the current time, in the order of their tracks
+  // Positions are relative to the whole video, also for elements within compositions
+  private draw() {
+    const { width, height } = this.state;
+    const scale = Math.min(this.element.clientWidth / width, this.element.clientHeight / height) || 0;
+
+    Object.assign(this.screen.style, {
+      width: `${width * scale}px`,
+      height: `${height * scale}px`,
+      background: this.state.source.fill_color ?? '#000',
+      fontSize: `${height * scale * 0.05}px`,
+    });
+    this.screen.dataset.time = this.time.toFixed(2);
+    this.screen.replaceChildren();
+
+    const visibleElements = this.getElements()
+      .filter((element) => element.source.type !== 'composition' && element.source.type !== 'audio')
+      .filter((element) => this.time >= element.globalTime && this.time < element.globalTime + element.duration)
+      .sort((a, b) => a.track - b.track);
+
+    for (const element of visibleElements) {
+      this.screen.appendChild(drawElement(element.source, width, height));
+    }
+  }
+}
+
+// Applies the modifications to a copy of the source, refer to: https://creatomate.com/docs/api/rest-api/the-modifications-object
+const applyModifications = (source: Record<string, any>, modifications: Record<string, any>) => {
+  source = deepClone(source);
+
+  for (const [selector, value] of Object.entries(modifications)) {
+    const [elementName, ...propertyPath] = selector.split('.');
+
+    for (const element of findElementsByName(source.elements ?? [], elementName)) {
+      if (propertyPath.length > 0) {
+        element[propertyPath.join('.')] = value;
+      } else if (element.type === 'text') {
+        element.text = value;
+      } else {
+        element.source = value;
+      }
+    }
+  }
+
+  return source;
+};
+
+const findElementsByName = (elements: Record<string, any>[], name: string): Record<string, any>[] =>
+  elements.flatMap((element) => [
+    ...(element.name === name ? [element] : []),
+    ...findElementsByName(element.elements ?? [], name),
+  ]);
+
+const createState = (source: Record<string, any>): PreviewState => {
+  const duration = toNumber(source.duration) ?? getContentDuration(source.elements ?? []);
+  return {
+    width: source.width ?? 1920,
+    height: source.height ?? 1080,
+    duration,
+    undo: false,
+    redo: false,
+    source,
+    elements: createElementStates(source.elements ?? [], duration, 0),
+  };
+};
+
+// Elements without a duration last until the end of the composition they're in
+const createElementStates = (
+  elements: Record<string, any>[],
+  parentDuration: number,
+  parentTime: number,
+): ElementState[] =>
+  placeElements(elements).map(({ source, track, time }) => {
+    const duration = getOwnDuration(source) ?? Math.max(parentDuration - time, 0);
+    const state: CompositionState = {
+      track,
+      localTime: time,
+      globalTime: parentTime + time,
+      duration,
+      exitDuration: 0,
+      source,
+    };
+
+    if (source.type === 'composition') {
+      state.elements = createElementStates(source.elements ?? [], duration, parentTime + time);
+    }
+
+    return state;
+  });
+
+// Elements without a time are placed after the previous element on the same track
+// An element with a transition starts while the previous element is still visible, so that they overlap
+const placeElements = (elements: Record<string, any>[]) => {
+  const trackEnds: Record<number, number> = {};
+
+  return elements.map((source) => {
+    const track: number = source.track ?? 1;
+    const time = toNumber(source.time) ?? Math.max((trackEnds[track] ?? 0) - getTransitionDuration(source), 0);
+    trackEnds[track] = time + (getOwnDuration(source) ?? 0);
+    return { source, track, time };
+  });
+};
+
+// The duration of an element, or undefined when it depends on the composition it's in
+const getOwnDuration = (source: Record<string, any>): number | undefined => {
+  const duration = toNumber(source.duration);
+  if (duration !== undefined || source.type !== 'composition') {
+    return duration;
+  }
+
+  return getContentDuration(source.elements ?? []) || undefined;
+};
+
+const getContentDuration = (elements: Record<string, any>[]) =>
+  Math.max(0, ...placeElements(elements).map(({ source, time }) => time + (getOwnDuration(source) ?? 0)));
+
+const getTransitionDuration = (source: Record<string, any>) => {
+  const transition = source.animations?.find((animation: any) => animation.transition);
+  return transition ? toNumber(transition.duration) ?? 1 : 0;
+};
+
+// Times, durations, and sizes are either a number or a string with a unit, such as '2.5 s'
+const toNumber = (value: unknown) => {
+  const seconds = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof seconds === 'number' && Number.isFinite(seconds) ? seconds : undefined;
+};
+
+const drawElement = (source: Record<string, any>, videoWidth: number, videoHeight: number) => {
+  const box = document.createElement('div');
+  box.dataset.elementName = source.name ?? '';
+
+  const width = toPercentage(source.width, videoWidth, 100);
+  const height = toPercentage(source.height, videoHeight, 100);
+  Object.assign(box.style, {
+    position: 'absolute',
+    left: `${toPercentage(source.x, videoWidth, 50) - (width * toPercentage(source.x_anchor, 100, 50)) / 100}%`,
+    top: `${toPercentage(source.y, videoHeight, 50) - (height * toPercentage(source.y_anchor, 100, 50)) / 100}%`,
+    width: `${width}%`,
+    height: `${height}%`,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    textAlign: 'center',
+  });
+
+  if (source.type === 'text') {
+    const text = document.createElement('span');
+    text.textContent = source.text ?? '';
+    Object.assign(text.style, {
+      color: source.fill_color ?? '#000',
+      background: source.background_color ?? 'none',
+      fontFamily: source.font_family ?? 'inherit',
+      fontWeight: source.font_weight ?? 'normal',
+    });
+    box.appendChild(text);
+  } else if (source.type === 'image' || source.type === 'video') {
+    Object.assign(box.style, {
+      background: `#333 url(${JSON.stringify(String(source.source ?? ''))}) center / cover no-repeat`,
+    });
+  } else {
+    box.style.background = source.fill_color ?? 'none';
+  }
+
+  return box;
+};
+
+// Positions and sizes are either a percentage or a number of pixels
+const toPercentage = (value: unknown, total: number, defaultValue: number) => {
+  if (typeof value === 'string' && value.endsWith('%')) {
+    return parseFloat(value) || 0;
+  }
+
+  const pixels = toNumber(value);
+  return pixels !== undefined ? (pixels / total) * 100 : defaultValue;
+};
+
+const flattenElements = (elements: ElementState[]): ElementState[] =>
+  elements.flatMap((element) => [element, ...flattenElements((element as CompositionState).elements ?? [])]);
@@ -0,0 +1,108 @@
+// Output settings of a render, chosen in the options menu of the Create button
+// This module is shared by the client and server, so that both agree on which values are allowed
+
+export type OutputFormat = 'mp4' | 'gif' | 'jpg' | 'png';
+
+export type OutputQuality = 'low' | 'medium' | 'high';
+
+export interface OutputOptions {
+  format: OutputFormat;
+  // Either a scale factor, or a target width and height in pixels that the output is scaled down to fit in
+  scale?: number;
+  width?: number;
+  height?: number;
+  // Only for mp4 and gif
+  frameRate?: number;
+  quality: OutputQuality;
+  // The time in seconds at which the snapshot is taken, only for jpg and png
+  snapshotTime?: number;
+}
+
+export const defaultOutputOptions: OutputOptions = {
+  format: 'mp4',
+  quality: 'medium',
+};
+
+export const outputFormats: OutputFormat[] = ['mp4', 'gif', 'jpg', 'png'];
+
+export const outputQualities: OutputQuality[] = ['low', 'medium', 'high'];
+
+// Frame rates as supported by Creatomate, refer to: https://creatomate.com/docs/json/output-format
+export const frameRates: Record<'mp4' | 'gif', number[]> = {
+  mp4: [24, 25, 30, 50, 60],
+  gif: [5, 10, 15],
+};
+
+export const scales = [0.25, 0.5, 0.75, 1, 1.5, 2];
+
+export const maxDimension = 3840;
+
+export function isSnapshotFormat(format: OutputFormat) {
+  return format === 'jpg' || format === 'png';
+}
+
+// Returns the list of problems with the provided options, which is empty when they are valid
+export function validateOutputOptions(options: any): string[] {
+  if (typeof options !== 'object' || options === null) {
+    return ['The output options must be an object.'];
+  }
+
+  const errors: string[] = [];
+
+  if (!outputFormats.includes(options.format)) {
+    errors.push(`The format must be one of: ${outputFormats.join(', ')}.`);
+  }
+
+  if (!outputQualities.includes(options.quality)) {
+    errors.push(`The quality must be one of: ${outputQualities.join(', ')}.`);
+  }
+
+  if (options.scale !== undefined && !scales.includes(options.scale)) {
+    errors.push(`The scale must be one of: ${scales.join(', ')}.`);
+  }
+
+  if (options.scale !== undefined && (options.width !== undefined || options.height !== undefined)) {
+    errors.push('Either a scale or a target width and height can be provided, not both.');
+  }
+
+  for (const dimension of ['width', 'height']) {
+    const value = options[dimension];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1 || value > maxDimension)) {
+      errors.push(`The ${dimension} must be a whole number between 1 and ${maxDimension}.`);
+    }
+  }
+
+  if (options.frameRate !== undefined) {
+    const allowedFrameRates = frameRates[options.format as 'mp4' | 'gif'];
+    if (!allowedFrameRates) {
+      errors.push('A frame rate can only be provided for mp4 and gif.');
+    } else if (!allowedFrameRates.includes(options.frameRate)) {
+      errors.push(`The frame rate must be one of: ${allowedFrameRates.join(', ')}.`);
+    }
+  }
+
+  if (options.snapshotTime !== undefined) {
+    if (!isSnapshotFormat(options.format)) {
+      errors.push('A snapshot time can only be provided for jpg and png.');
+    } else if (typeof options.snapshotTime !== 'number' || !(options.snapshotTime >= 0)) {
+      errors.push('The snapshot time must be a positive number.');
+    }
+  }
+
+  return errors;
+}
+
+// Creates a file name such as 'my-project-2026-10-19-1430.mp4'
+export function getDownloadFileName(title: string | undefined, format: OutputFormat, date: Date) {
+  const name = (title ?? '')
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_-]+/g, '-')
+    .toLowerCase();
+
+  const timestamp = date.toISOString().slice(0, 16).replace('T', '-').replace(':', '');
+  const suffix = isSnapshotFormat(format) ? '-snapshot' : '';
+
+  return `${name || 'video'}-${timestamp}${suffix}.${format}`;
+}
@@ -0,0 +1,33 @@
+import { Preview } from '@creatomate/preview';
+import { isOfflineMode } from './offlineMode';
+import { OfflinePreview } from './offlinePreview';
+
+// The part of the Preview SDK that the editor depends on, implemented by either the SDK or the offline preview
+// Refer to: https://creatomate.com/docs/preview-sdk/introduction
+export type PreviewAdapter = Pick<
+  Preview,
+  | 'element'
+  | 'onReady'
+  | 'onLoad'
+  | 'onLoadComplete'
+  | 'onPlay'
+  | 'onPause'
+  | 'onTimeChange'
+  | 'onStateChange'
+  | 'state'
+  | 'dispose'
+  | 'setControls'
+  | 'loadTemplate'
+  | 'setSource'
+  | 'getSource'
+  | 'getElements'
+  | 'setModifications'
+  | 'play'
+  | 'pause'
+  | 'setTime'
+  | 'cacheAsset'
+>;
+
+export function createPreview(element: HTMLDivElement, publicToken: string): PreviewAdapter {
+  return isOfflineMode() ? new OfflinePreview(element) : new Preview(element, 'player', publicToken);
+}
@@ -0,0 +1,53 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import { PreviewSync } from './previewSync';
+import { PreviewAdapter } from './previewAdapter';
+
+// A preview that fails to apply the sources in failingSources
+const createPreview = (failingSources: Set<unknown>) => {
+  const preview = {
+    source: undefined as unknown,
+    setSource: vi.fn(async (source: unknown) => {
+      if (failingSources.has(source)) {
+        throw new Error('The source could not be loaded.');
+      }
+      preview.source = source;
+    }),
+    setModifications: vi.fn(async () => undefined),
+  };
+  return preview;
+};
+
+describe('PreviewSync', () => {
+  it('reports a failed update and applies the next one', async () => {
+    const failingSource = { elements: [] };
+    const preview = createPreview(new Set([failingSource]));
+    const onError = vi.fn();
+    const sync = new PreviewSync(preview as unknown as PreviewAdapter, { source: {}, modifications: {} }, onError);
+
+    sync.update({ source: failingSource, modifications: {} });
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+    expect(onError.mock.calls[0][0].message).toBe('The source could not be loaded.');
+
+    const nextSource = { elements: [] };
+    sync.update({ source: nextSource, modifications: {} });
+    await sync.flush();
+    expect(preview.source).toBe(nextSource);
+  });
+
+  it('throws from flush instead of reporting the error, and tries the update again on the next flush', async () => {
+    const source = { elements: [] };
+    const failingSources = new Set<unknown>([source]);
+    const preview = createPreview(failingSources);
+    const onError = vi.fn();
+    const sync = new PreviewSync(preview as unknown as PreviewAdapter, { source: {}, modifications: {} }, onError);
+
+    sync.update({ source, modifications: {} });
+    await expect(sync.flush()).rejects.toThrow('The source could not be loaded.');
+    expect(onError).not.toHaveBeenCalled();
+
+    failingSources.clear();
+    await sync.flush();
+    expect(preview.source).toBe(source);
+  });
+});
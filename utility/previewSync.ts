@@ -0,0 +1,115 @@
+import { PreviewAdapter } from './previewAdapter';
+import type { EditSnapshot } from './editorStore';
+
+// How long the preview waits for more keystrokes before applying changed modifications, in milliseconds
+const modificationDelay = 150;
+
+// Applies the state of the editor to the preview, one update at a time
+// When the state changes again while the preview is still updating, only the latest state is applied afterwards,
+// so that the preview doesn't fall behind when typing in large templates
+export class PreviewSync {
+  readonly preview: PreviewAdapter;
+
+  // The state that the preview currently shows, compared by reference as the editor state is immutable
+  private applied: EditSnapshot;
+  private pending?: EditSnapshot;
+  private timeout?: number;
+  private running?: Promise<void>;
+  // Reports the updates that fail while nothing is waiting for the preview, e.g. by showing a notification
+  private readonly onError?: (error: unknown) => void;
+  // The number of flush calls that are waiting, which receive the error of a failed update instead
+  private flushCount = 0;
+  private flushError?: unknown;
+
+  constructor(preview: PreviewAdapter, applied: EditSnapshot, onError?: (error: unknown) => void) {
+    this.preview = preview;
+    this.applied = applied;
+    this.onError = onError;
+  }
+
+  // A new source is applied right away, while changed modifications wait a moment for the next keystroke
+  update(snapshot: EditSnapshot) {
+    this.pending = snapshot;
+    window.clearTimeout(this.timeout);
+
+    if (snapshot.source !== this.applied.source) {
+      this.start();
+    } else {
+      this.timeout = window.setTimeout(() => this.start(), modificationDelay);
+    }
+  }
+
+  // Resolves once the preview shows the latest state, e.g. before its source is sent to be rendered
+  // Throws when the preview couldn't be updated, so that an outdated source isn't used
+  async flush() {
+    window.clearTimeout(this.timeout);
+    this.flushCount++;
+    this.flushError = undefined;
+
+    try {
+      this.start();
+      while (this.running) {
+        await this.running;
+      }
+    } finally {
+      this.flushCount--;
+    }
+
+    const error = this.flushError;
+    this.flushError = undefined;
+    if (error !== undefined) {
+      throw error;
+    }
+  }
+
+  // Marks a state as shown, for changes that were made to the preview directly, such as loading a template
+  adopt(snapshot: EditSnapshot) {
+    this.applied = snapshot;
+  }
+
+  dispose() {
+    window.clearTimeout(this.timeout);
+    this.pending = undefined;
+  }
+
+  private start() {
+    if (this.pending && !this.running) {
+      this.running = this.run()
+        .catch((error) => {
+          if (this.flushCount > 0) {
+            this.flushError = error;
+          } else {
+            this.onError?.(error);
+          }
+        })
+        .finally(() => {
+          this.running = undefined;
+        });
+    }
+  }
+
+  private async run() {
+    while (this.pending) {
+      const snapshot = this.pending;
+      this.pending = undefined;
+
+      try {
+        // Setting the source resets the modifications of the preview, so these are applied again afterwards
+        const sourceChanged = snapshot.source !== this.applied.source;
+        if (sourceChanged) {
+          await this.preview.setSource(snapshot.source);
+        }
+
+        if (sourceChanged || snapshot.modifications !== this.applied.modifications) {
+          await this.preview.setModifications(snapshot.modifications);
+        }
+      } catch (error) {
+        // The state is applied again by the next update or flush, unless a newer state has replaced it
+        this.pending ??= snapshot;
+        throw error;
+      }
+
+      this.applied = snapshot;
+    }
+  }
+}
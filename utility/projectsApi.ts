@@ -0,0 +1,43 @@
+import type { Project } from '../server/projectStore';
+import { readApiError } from './apiErrors';
+
+export type ProjectSummary = Pick<Project, 'id' | 'title' | 'templateId' | 'brandKitId' | 'createdAt' | 'updatedAt'>;
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  return await request('/api/projects');
+}
+
+export async function fetchProject(id: string): Promise<Project> {
+  return await request(`/api/projects/${encodeURIComponent(id)}`);
+}
+
+export async function createProject(
+  project: Pick<Project, 'title' | 'templateId' | 'source' | 'modifications' | 'brandKitId'>,
+): Promise<Project> {
+  return await request('/api/projects', 'POST', project);
+}
+
+export async function updateProject(
+  id: string,
+  changes: Partial<Pick<Project, 'title' | 'templateId' | 'source' | 'modifications' | 'brandKitId'>>,
+): Promise<Project> {
+  return await request(`/api/projects/${encodeURIComponent(id)}`, 'PUT', changes);
+}
+
+export async function deleteProject(id: string) {
+  await request(`/api/projects/${encodeURIComponent(id)}`, 'DELETE');
+}
+
+const request = async (url: string, method = 'GET', body?: any) => {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  return response.status === 204 ? undefined : await response.json();
+};
@@ -0,0 +1,34 @@
+import type { RenderJob } from '../server/jobStore';
+import { readApiError } from './apiErrors';
+
+export type RenderSummary = Omit<RenderJob, 'source' | 'modifications'>;
+
+export async function listRenders(): Promise<RenderSummary[]> {
+  return await request('/api/videos');
+}
+
+export async function fetchRender(id: string): Promise<RenderJob> {
+  return await request(`/api/videos/${encodeURIComponent(id)}`);
+}
+
+export async function deleteRender(id: string) {
+  await request(`/api/videos/${encodeURIComponent(id)}`, 'DELETE');
+}
+
+export function getDownloadUrl(id: string) {
+  return `/api/videos/${encodeURIComponent(id)}/download`;
+}
+
+const request = async (url: string, method = 'GET', body?: any) => {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  return response.status === 204 ? undefined : await response.json();
+};
@@ -0,0 +1,26 @@
+import type { Share } from '../server/shareStore';
+import { readApiError } from './apiErrors';
+
+export async function createShare(share: Omit<Share, 'id' | 'createdAt'>): Promise<{ id: string; url: string }> {
+  const { id, url } = await request('/api/shares', 'POST', share);
+  // The server only knows its own address when PUBLIC_URL is set, otherwise it responds with the path
+  return { id, url: new URL(url, window.location.href).toString() };
+}
+
+export async function fetchShare(id: string): Promise<Share> {
+  return await request(`/api/shares/${encodeURIComponent(id)}`);
+}
+
+const request = async (url: string, method = 'GET', body?: any) => {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+
+  return await response.json();
+};
@@ -0,0 +1,191 @@
+import { CompositionState, ElementState } from '@creatomate/preview';
+import { deepClone } from './deepClone';
+
+// Timing and animation settings of a slide, which are changed in the source rather than through modifications
+// For the animation properties, refer to: https://creatomate.com/docs/json/elements/common-properties
+
+export interface SlideSettings {
+  // In seconds
+  duration?: number;
+  transition?: { type: string; duration: number };
+  // The zoom of the slide's image or video, with the scale in percent and the focal point as a position in percent
+  kenBurns?: { startScale: number; endScale: number; x: number; y: number };
+  textAnimation?: { type: string; direction: string };
+}
+
+export const transitionTypes = [
+  { type: 'none', label: 'No Transition' },
+  { type: 'fade', label: 'Fade' },
+  { type: 'circular-wipe', label: 'Circle Wipe' },
+  { type: 'wipe', label: 'Wipe' },
+  { type: 'color-wipe', label: 'Color Wipe' },
+  { type: 'slide', label: 'Slide' },
+  { type: 'squash', label: 'Squash' },
+  { type: 'stripe', label: 'Stripe' },
+];
+
+export const textAnimationTypes = [
+  { type: 'none', label: 'No Animation', hasDirection: false },
+  { type: 'text-slide', label: 'Slide In', hasDirection: true },
+  { type: 'text-appear', label: 'Appear', hasDirection: false },
+  { type: 'text-typewriter', label: 'Typewriter', hasDirection: false },
+  { type: 'text-wave', label: 'Wave', hasDirection: false },
+  { type: 'fade', label: 'Fade In', hasDirection: false },
+];
+
+export const textAnimationDirections = ['up', 'down', 'left', 'right'];
+
+// The shortest duration of a slide in seconds
+export const minSlideDuration = 0.5;
+
+export function getSlideSettings(slide: ElementState): SlideSettings {
+  const children = (slide as CompositionState).elements ?? [];
+  const media = children.find((element) => element.source.type === 'image' || element.source.type === 'video');
+  const text = children.find((element) => element.source.type === 'text');
+
+  const transition = findTransition(slide.source);
+  const scale = media && findKenBurns(media.source);
+  const entrance = text && findEntrance(text.source);
+
+  return {
+    duration: slide.duration,
+    transition: transition
+      ? { type: transition.type, duration: parseFloat(transition.duration) || 1 }
+      : { type: 'none', duration: 1 },
+    kenBurns: media && {
+      startScale: parseFloat(scale?.start_scale) || 100,
+      endScale: parseFloat(scale?.end_scale) || 100,
+      x: parseFloat(scale?.x_anchor ?? '50%'),
+      y: parseFloat(scale?.y_anchor ?? '50%'),
+    },
+    textAnimation: text && {
+      type: entrance?.type ?? 'none',
+      direction: entrance?.direction ?? 'up',
+    },
+  };
+}
+
+// Returns a copy of the source with the settings applied to the named slide
+export function updateSlideSettings(
+  source: Record<string, any>,
+  slideName: string,
+  settings: SlideSettings,
+): Record<string, any> {
+  source = deepClone(source);
+
+  const slide = findElement(source.elements, slideName);
+  if (!slide) {
+    return source;
+  }
+
+  const children: Record<string, any>[] = slide.elements ?? [];
+
+  if (settings.duration !== undefined) {
+    setDuration(slide, Math.max(settings.duration, minSlideDuration));
+
+    // The length of the video follows from its slides, rather than being fixed
+    delete source.duration;
+    for (const element of source.elements) {
+      if (element.track === slide.track) {
+        delete element.time;
+      }
+    }
+  }
+
+  if (settings.transition) {
+    const { type, duration } = settings.transition;
+    const animations = (slide.animations ?? []).filter((animation: any) => !animation.transition);
+
+    // The transition can't take longer than the slide itself
+    const maxDuration = typeof slide.duration === 'number' ? slide.duration : Infinity;
+    slide.animations =
+      type === 'none'
+        ? animations
+        : [{ type, duration: Math.min(duration, maxDuration), transition: true }, ...animations];
+  }
+
+  const media = children.find((element) => element.type === 'image' || element.type === 'video');
+  if (settings.kenBurns && media) {
+    const { startScale, endScale, x, y } = settings.kenBurns;
+    const kenBurns = findKenBurns(media);
+    const animations = (media.animations ?? []).filter((animation: any) => animation !== kenBurns);
+    media.animations = [
+      ...animations,
+      {
+        easing: 'linear',
+        type: 'scale',
+        fade: false,
+        scope: 'element',
+        start_scale: `${startScale}%`,
+        end_scale: `${endScale}%`,
+        x_anchor: `${x}%`,
+        y_anchor: `${y}%`,
+      },
+    ];
+  }
+
+  const text = children.find((element) => element.type === 'text');
+  if (settings.textAnimation && text) {
+    const { type, direction } = settings.textAnimation;
+    const entrance = findEntrance(text);
+    const animations = (text.animations ?? []).filter((animation: any) => animation !== entrance);
+    text.animations = type === 'none' ? animations : [createEntrance(type, direction), ...animations];
+  }
+
+  return source;
+}
+
+const findElement = (elements: Record<string, any>[], name: string): Record<string, any> | undefined => {
+  for (const element of elements) {
+    if (element.name === name) {
+      return element;
+    }
+
+    const nestedElement = element.elements && findElement(element.elements, name);
+    if (nestedElement) {
+      return nestedElement;
+    }
+  }
+};
+
+const findTransition = (element: Record<string, any>) => {
+  return element.animations?.find((animation: any) => animation.transition);
+};
+
+// The Ken Burns effect is a scale animation that lasts the entire element
+const findKenBurns = (element: Record<string, any>) => {
+  return element.animations?.find((animation: any) => animation.type === 'scale' && animation.time === undefined);
+};
+
+const findEntrance = (element: Record<string, any>) => {
+  return element.animations?.find((animation: any) => animation.time === 'start');
+};
+
+const createEntrance = (type: string, direction: string) => {
+  const animation: Record<string, any> = { time: 'start', duration: 1, easing: 'quadratic-out', type };
+
+  // This matches the text animation of the "Image Slideshow w/ Intro and Outro" template
+  if (type === 'text-slide') {
+    Object.assign(animation, { scope: 'split-clip', split: 'line', direction, background_effect: 'scaling-clip' });
+  }
+
+  return animation;
+};
+
+// Changes the duration of a slide, and lets the elements that last until the end of the slide follow along
+const setDuration = (slide: Record<string, any>, duration: number) => {
+  const previousDuration = typeof slide.duration === 'number' ? slide.duration : undefined;
+  slide.duration = duration;
+
+  for (const element of slide.elements ?? []) {
+    if (typeof element.duration !== 'number') {
+      continue;
+    }
+
+    const time = typeof element.time === 'number' ? element.time : 0;
+    const endsWithSlide = previousDuration !== undefined && Math.abs(time + element.duration - previousDuration) < 0.01;
+    if (endsWithSlide || time + element.duration > duration) {
+      element.duration = Math.max(duration - time, 0.1);
+    }
+  }
+};
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { duplicateSlide, getSlideNames, insertSlide, moveSlide, removeSlide } from './slides';
+import { setSubtitles } from './subtitles';
+import { defaultBrandKitStyle } from './brandKit';
+
+const createSlide = (name: string) => ({
+  name,
+  type: 'composition',
+  track: 1,
+  time: 0,
+  elements: [
+    { name: `${name}-Image`, type: 'image' },
+    { name: `${name}-Text`, type: 'text' },
+  ],
+});
+
+const source = {
+  duration: 12,
+  elements: [
+    { name: 'Intro', type: 'composition', track: 1 },
+    createSlide('Slide-1'),
+    createSlide('Slide-2'),
+    createSlide('Slide-3'),
+    { name: 'Logo', type: 'image', track: 2 },
+  ],
+};
+
+const modifications = {
+  'Slide-1-Text': 'First',
+  'Slide-2-Text': 'Second',
+  'Slide-2-Text.background_border_radius': '50%',
+  'Slide-3-Text': 'Third',
+  Logo: 'https://creatomate.com/logo.png',
+};
+
+describe('removeSlide', () => {
+  it('renumbers the following slides along with their modifications', () => {
+    const edit = removeSlide(source, modifications, 'Slide-1');
+
+    expect(getSlideNames(edit.source)).toEqual(['Slide-1', 'Slide-2']);
+    expect(edit.source.elements[1].elements.map((element: any) => element.name)).toEqual([
+      'Slide-1-Image',
+      'Slide-1-Text',
+    ]);
+    expect(edit.modifications).toEqual({
+      'Slide-1-Text': 'Second',
+      'Slide-1-Text.background_border_radius': '50%',
+      'Slide-2-Text': 'Third',
+      Logo: 'https://creatomate.com/logo.png',
+    });
+  });
+
+  it('lets the slides autosize on the timeline', () => {
+    const edit = removeSlide(source, modifications, 'Slide-2');
+
+    expect(edit.source.duration).toBeUndefined();
+    expect(edit.source.elements.every((element: any) => element.time === undefined)).toBe(true);
+  });
+
+  it('leaves the source unchanged when the slide does not exist', () => {
+    const edit = removeSlide(source, modifications, 'Slide-4');
+
+    expect(edit.source).toEqual(source);
+    expect(edit.modifications).toBe(modifications);
+  });
+});
+
+describe('moveSlide', () => {
+  it('swaps the modifications of the slides without overwriting them', () => {
+    const edit = moveSlide(source, modifications, 'Slide-3', 0);
+
+    expect(edit.source.elements.map((element: any) => element.name)).toEqual([
+      'Intro',
+      'Slide-1',
+      'Slide-2',
+      'Slide-3',
+      'Logo',
+    ]);
+    expect(edit.modifications).toEqual({
+      'Slide-1-Text': 'Third',
+      'Slide-2-Text': 'First',
+      'Slide-3-Text': 'Second',
+      'Slide-3-Text.background_border_radius': '50%',
+      Logo: 'https://creatomate.com/logo.png',
+    });
+  });
+});
+
+describe('duplicateSlide', () => {
+  it('copies the modifications of the slide to the copy that follows it', () => {
+    const edit = duplicateSlide(source, modifications, 'Slide-2');
+
+    expect(getSlideNames(edit.source)).toEqual(['Slide-1', 'Slide-2', 'Slide-3', 'Slide-4']);
+    expect(edit.modifications).toEqual({
+      'Slide-1-Text': 'First',
+      'Slide-2-Text': 'Second',
+      'Slide-2-Text.background_border_radius': '50%',
+      'Slide-3-Text': 'Second',
+      'Slide-3-Text.background_border_radius': '50%',
+      'Slide-4-Text': 'Third',
+      Logo: 'https://creatomate.com/logo.png',
+    });
+  });
+});
+
+describe('insertSlide', () => {
+  it('adds a slide after the last slide, before the other elements', () => {
+    const edit = insertSlide(source, modifications, (slideName) => createSlide(slideName));
+
+    expect(edit.source.elements.map((element: any) => element.name)).toEqual([
+      'Intro',
+      'Slide-1',
+      'Slide-2',
+      'Slide-3',
+      'Slide-4',
+      'Logo',
+    ]);
+    expect(edit.source.elements[4].elements[1].name).toBe('Slide-4-Text');
+    expect(edit.modifications).toEqual(modifications);
+  });
+});
+
+describe('slide edits', () => {
+  it('keep the timing of the subtitles', () => {
+    const cues = [
+      { start: 1.5, end: 3, text: 'First' },
+      { start: 9, end: 11.25, text: 'Second' },
+    ];
+    const subtitledSource = setSubtitles(source, cues, 'block-text', defaultBrandKitStyle);
+
+    const edits = [
+      insertSlide(subtitledSource, modifications, (slideName) => createSlide(slideName)),
+      removeSlide(subtitledSource, modifications, 'Slide-1'),
+      duplicateSlide(subtitledSource, modifications, 'Slide-2'),
+      moveSlide(subtitledSource, modifications, 'Slide-3', 0),
+    ];
+
+    for (const edit of edits) {
+      const subtitles = edit.source.elements.filter((element: any) => element.name.startsWith('Subtitle-'));
+      expect(subtitles.map((element: any) => [element.time, element.duration])).toEqual([
+        [1.5, 1.5],
+        [9, 2.25],
+      ]);
+      expect(edit.source.elements.find((element: any) => element.name === 'Slide-1').time).toBeUndefined();
+    }
+  });
+});
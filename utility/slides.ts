@@ -0,0 +1,201 @@
+import { deepClone } from './deepClone';
+
+// Slides are the compositions on the main timeline that are named 'Slide-1', 'Slide-2', etc.
+// Elements in a slide are prefixed with the name of the slide, e.g. 'Slide-1-Text' and 'Slide-1-Image'
+
+export interface SlideEdit {
+  source: Record<string, any>;
+  modifications: Record<string, any>;
+}
+
+export function isSlide(element: Record<string, any>) {
+  return element.type === 'composition' && !!element.name?.startsWith('Slide-');
+}
+
+export function getSlideNames(source: Record<string, any>): string[] {
+  return source.elements.filter(isSlide).map((element: any) => element.name);
+}
+
+// Inserts a slide after the last slide of the video
+export function insertSlide(
+  source: Record<string, any>,
+  modifications: Record<string, any>,
+  createSlide: (slideName: string, slideNumber: number) => Record<string, any>,
+): SlideEdit {
+  source = deepClone(source);
+
+  const lastSlideIndex = source.elements.findLastIndex(isSlide);
+  const slideNumber = getSlideNames(source).length + 1;
+
+  // The slide gets a temporary name that cannot collide with existing slides, it's renamed once it's in place
+  source.elements.splice(lastSlideIndex + 1, 0, createSlide(`Slide-${slideNumber}-new`, slideNumber));
+
+  return renumberSlides(source, modifications);
+}
+
+export function removeSlide(
+  source: Record<string, any>,
+  modifications: Record<string, any>,
+  slideName: string,
+): SlideEdit {
+  source = deepClone(source);
+
+  const index = source.elements.findIndex((element: any) => isSlide(element) && element.name === slideName);
+  if (index === -1) {
+    return { source, modifications };
+  }
+
+  // Drop the modifications of the removed slide, so that they don't end up on the slide that takes its place
+  const [slide] = source.elements.splice(index, 1);
+  const removedNames = new Set(getElementNames(slide));
+  const remainingModifications = Object.fromEntries(
+    Object.entries(modifications).filter(([selector]) => !removedNames.has(getElementName(selector))),
+  );
+
+  return renumberSlides(source, remainingModifications);
+}
+
+export function duplicateSlide(
+  source: Record<string, any>,
+  modifications: Record<string, any>,
+  slideName: string,
+): SlideEdit {
+  source = deepClone(source);
+
+  const index = source.elements.findIndex((element: any) => isSlide(element) && element.name === slideName);
+  if (index === -1) {
+    return { source, modifications };
+  }
+
+  // Give the copy a temporary name, then copy the modifications of the original slide over to it
+  const copy = deepClone(source.elements[index]);
+  delete copy.id;
+  const renames = renameSlide(copy, `${slideName}-copy`);
+  source.elements.splice(index + 1, 0, copy);
+
+  const copiedModifications = { ...modifications };
+  for (const [selector, value] of Object.entries(modifications)) {
+    const newName = renames.get(getElementName(selector));
+    if (newName) {
+      copiedModifications[replaceElementName(selector, newName)] = value;
+    }
+  }
+
+  return renumberSlides(source, copiedModifications);
+}
+
+// Moves a slide to the provided position, counted in slides rather than elements
+export function moveSlide(
+  source: Record<string, any>,
+  modifications: Record<string, any>,
+  slideName: string,
+  toIndex: number,
+): SlideEdit {
+  source = deepClone(source);
+
+  // The slides are reordered among the positions they already occupy, so that other elements stay in place
+  const positions: number[] = [];
+  source.elements.forEach((element: any, i: number) => isSlide(element) && positions.push(i));
+
+  const slides = positions.map((position) => source.elements[position]);
+  const fromIndex = slides.findIndex((slide) => slide.name === slideName);
+  if (fromIndex === -1) {
+    return { source, modifications };
+  }
+
+  slides.splice(toIndex, 0, ...slides.splice(fromIndex, 1));
+  positions.forEach((position, i) => (source.elements[position] = slides[i]));
+
+  return renumberSlides(source, modifications);
+}
+
+// Names the slides 'Slide-1', 'Slide-2', etc. in the order they appear, and lets the modifications follow them
+export function renumberSlides(source: Record<string, any>, modifications: Record<string, any>): SlideEdit {
+  source = deepClone(source);
+
+  const renames = new Map<string, string>();
+  let slideNumber = 0;
+
+  for (const element of source.elements) {
+    if (isSlide(element)) {
+      slideNumber++;
+      renameSlide(element, `Slide-${slideNumber}`).forEach((newName, oldName) => renames.set(oldName, newName));
+    }
+  }
+
+  // All selectors are renamed at once, so that slides can swap names without overwriting each other's modifications
+  const renamedModifications: Record<string, any> = {};
+  for (const [selector, value] of Object.entries(modifications)) {
+    const newName = renames.get(getElementName(selector));
+    renamedModifications[newName ? replaceElementName(selector, newName) : selector] = value;
+  }
+
+  // Delete the 'duration' and 'time' property values to make each element (Slide-1, Slide-2, etc.) autosize on the timeline
+  // Only the elements on the track of the slides are placed one after the other, others such as subtitles keep their time
+  const slideTrack = source.elements.find(isSlide)?.track ?? 1;
+  delete source.duration;
+  for (const element of source.elements) {
+    if ((element.track ?? 1) === slideTrack) {
+      delete element.time;
+    }
+  }
+
+  return { source, modifications: renamedModifications };
+}
+
+// Returns a video of only the slide and the modifications of its elements, from which its thumbnail is rendered
+// Leaving out the rest of the video means that the thumbnail only has to be rendered again when the slide changes
+export function getSlideVideo(
+  source: Record<string, any>,
+  modifications: Record<string, any>,
+  slideName: string,
+  duration: number,
+): SlideEdit | undefined {
+  const slide = source.elements.find((element: any) => isSlide(element) && element.name === slideName);
+  if (!slide) {
+    return undefined;
+  }
+
+  const elementNames = new Set(getElementNames(slide));
+  const { elements, ...video } = source;
+
+  return {
+    source: { ...video, duration, elements: [{ ...slide, track: 1, time: 0, duration }] },
+    modifications: Object.fromEntries(
+      Object.entries(modifications).filter(([selector]) => elementNames.has(getElementName(selector))),
+    ),
+  };
+}
+
+// Renames a slide along with its nested elements that are prefixed with its name, returning the old and new names
+const renameSlide = (slide: Record<string, any>, slideName: string) => {
+  const renames = new Map<string, string>();
+  const prefix = `${slide.name}-`;
+
+  const rename = (element: Record<string, any>) => {
+    if (element.name?.startsWith(prefix)) {
+      const newName = `${slideName}-${element.name.slice(prefix.length)}`;
+      renames.set(element.name, newName);
+      element.name = newName;
+    }
+    element.elements?.forEach(rename);
+  };
+
+  renames.set(slide.name, slideName);
+  slide.name = slideName;
+  slide.elements?.forEach(rename);
+
+  return renames;
+};
+
+const getElementNames = (element: Record<string, any>): string[] => {
+  return [element.name, ...(element.elements ?? []).flatMap(getElementNames)].filter(Boolean);
+};
+
+// Selectors consist of an element name, optionally followed by a property, e.g. 'Slide-1-Text.background_border_radius'
+const getElementName = (selector: string) => selector.split('.')[0];
+
+const replaceElementName = (selector: string, elementName: string) => {
+  const propertyIndex = selector.indexOf('.');
+  return propertyIndex === -1 ? elementName : elementName + selector.slice(propertyIndex);
+};
@@ -0,0 +1,41 @@
+import { readApiError } from './apiErrors';
+
+export interface SnapshotRequest {
+  templateId: string;
+  source: Record<string, any>;
+  modifications: Record<string, any>;
+  // The time in seconds at which the snapshot is taken
+  time: number;
+}
+
+// How long to wait for a snapshot to be rendered, in milliseconds
+const timeout = 60000;
+
+// Returns the image of the source at the requested time, which the server renders or takes from its cache
+// While the snapshot is being rendered, the server responds with HTTP 202, after which the request is repeated
+export async function fetchSnapshot(request: SnapshotRequest): Promise<Blob> {
+  const startTime = Date.now();
+
+  for (;;) {
+    const response = await fetch('/api/snapshots', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      throw await readApiError(response);
+    }
+
+    if (response.status !== 202) {
+      return await response.blob();
+    }
+
+    if (Date.now() - startTime > timeout) {
+      throw new Error('Rendering the snapshot took too long.');
+    }
+
+    const retryAfter = Number(response.headers.get('Retry-After')) || 1;
+    await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { formatSrt, parseSubtitles } from './subtitles';
+
+describe('parseSubtitles', () => {
+  it('reads the cues of an SRT file', () => {
+    const srt =
+      '1\r\n00:00:01,000 --> 00:00:02,500\r\nHello\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,250\r\nTwo\r\nlines\r\n';
+
+    expect(parseSubtitles(srt)).toEqual([
+      { start: 1, end: 2.5, text: 'Hello' },
+      { start: 3, end: 4.25, text: 'Two\nlines' },
+    ]);
+  });
+
+  it('reads the cues of a WebVTT file, skipping the blocks without timing', () => {
+    const vtt = [
+      '\uFEFFWEBVTT',
+      '',
+      'NOTE This is a comment',
+      '',
+      'intro',
+      '00:05.5 --> 00:07.000 align:start',
+      '<v Speaker>Later</v>',
+      '',
+      '00:01.000 --> 00:02.000',
+      '<b>Earlier</b>',
+    ].join('\n');
+
+    expect(parseSubtitles(vtt)).toEqual([
+      { start: 1, end: 2, text: 'Earlier' },
+      { start: 5.5, end: 7, text: 'Later' },
+    ]);
+  });
+
+  it('skips cues that are empty or end before they start', () => {
+    const srt =
+      '1\n00:00:02,000 --> 00:00:01,000\nBackwards\n\n2\n00:00:03,000 --> 00:00:04,000\n \n\n3\n01:00:00,000 --> 01:00:01,000\nHour';
+
+    expect(parseSubtitles(srt)).toEqual([{ start: 3600, end: 3601, text: 'Hour' }]);
+  });
+
+  it('throws when the file does not contain any subtitles', () => {
+    expect(() => parseSubtitles('WEBVTT\n\n')).toThrow('The file does not contain any subtitles.');
+  });
+
+  it('reads the SRT that formatSrt writes', () => {
+    const cues = [
+      { start: 0.5, end: 61.25, text: 'First' },
+      { start: 3723.004, end: 3724, text: 'Second' },
+    ];
+
+    expect(parseSubtitles(formatSrt(cues))).toEqual(cues);
+  });
+});
@@ -0,0 +1,135 @@
+import { PreviewState } from '@creatomate/preview';
+import { deepClone } from './deepClone';
+import { applyTextStyle, BrandKitStyle } from './brandKit';
+
+// A subtitle that is shown from its start to its end time, in seconds
+export interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// The same styles as the 'Block Text' and 'Rounded Text' options of text fields
+export type SubtitleStyle = 'block-text' | 'rounded-text';
+
+// Subtitles are added as text elements named 'Subtitle-1', 'Subtitle-2', etc.
+export const subtitlePrefix = 'Subtitle-';
+
+// Reads the cues of an SRT or WebVTT file
+// Refer to: https://www.w3.org/TR/webvtt1/ and https://en.wikipedia.org/wiki/SubRip
+export function parseSubtitles(text: string): Cue[] {
+  const blocks = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+  const cues: Cue[] = [];
+
+  for (const block of blocks) {
+    // Blocks without timing, such as the WEBVTT header and NOTE or STYLE blocks, are skipped
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) {
+      continue;
+    }
+
+    const [start, end] = lines[timingIndex].split('-->').map(parseTimestamp);
+    const cueText = lines
+      .slice(timingIndex + 1)
+      .join('\n')
+      .replace(/<[^>]+>/g, '')
+      .trim();
+
+    if (start !== undefined && end !== undefined && end > start && cueText) {
+      cues.push({ start, end, text: cueText });
+    }
+  }
+
+  if (cues.length === 0) {
+    throw new Error('The file does not contain any subtitles.');
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+export function formatSrt(cues: Cue[]) {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function isSubtitle(element: Record<string, any>) {
+  return element.type === 'text' && !!element.name?.startsWith(subtitlePrefix);
+}
+
+export function getSubtitles(state: PreviewState): { cues: Cue[]; style: SubtitleStyle } {
+  const elements = state.elements
+    .filter((element) => isSubtitle(element.source))
+    .sort((a, b) => a.globalTime - b.globalTime);
+
+  return {
+    cues: elements.map((element) => ({
+      start: element.globalTime,
+      end: element.globalTime + element.duration,
+      text: element.source.text ?? '',
+    })),
+    style: elements[0]?.source.background_border_radius === '50%' ? 'rounded-text' : 'block-text',
+  };
+}
+
+// Returns a copy of the source in which the subtitles are replaced by the provided cues, on a track of their own
+export function setSubtitles(
+  source: Record<string, any>,
+  cues: Cue[],
+  style: SubtitleStyle,
+  brandKitStyle: BrandKitStyle,
+): Record<string, any> {
+  source = deepClone(source);
+
+  const existingTrack = source.elements.find(isSubtitle)?.track;
+  source.elements = source.elements.filter((element: any) => !isSubtitle(element));
+  const track = existingTrack ?? Math.max(0, ...source.elements.map((element: any) => element.track ?? 1)) + 1;
+
+  cues.forEach((cue, i) => {
+    const element = {
+      name: `${subtitlePrefix}${i + 1}`,
+      type: 'text',
+      track,
+      time: cue.start,
+      duration: Math.max(cue.end - cue.start, 0.1),
+      y: '90%',
+      width: '80%',
+      height: '12%',
+      x_alignment: '50%',
+      y_alignment: '100%',
+      text: cue.text,
+      background_color: brandKitStyle.primaryColor,
+      background_x_padding: '30%',
+      background_border_radius: style === 'rounded-text' ? '50%' : '0%',
+    };
+
+    applyTextStyle(element, brandKitStyle);
+    source.elements.push(element);
+  });
+
+  return source;
+}
+
+const parseTimestamp = (value: string) => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, hours = '0', minutes, seconds, fraction] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+// Formats a time in seconds as '00:01:02,500'
+const formatTimestamp = (time: number) => {
+  const milliseconds = Math.round(time * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return (
+    `${pad(Math.floor(milliseconds / 3600000))}:${pad(Math.floor(milliseconds / 60000) % 60)}:` +
+    `${pad(Math.floor(milliseconds / 1000) % 60)},${pad(milliseconds % 1000, 3)}`
+  );
+};
@@ -0,0 +1,172 @@
+import { CompositionState, ElementState, PreviewState } from '@creatomate/preview';
+import templates from '../config/templates.json';
+
+// Settings of a field or group, as declared in config/templates.json
+export interface FieldSettings {
+  // Name of the group to show the field in, instead of the composition it belongs to
+  group?: string;
+  label?: string;
+  placeholder?: string;
+  order?: number;
+  hidden?: boolean;
+  // The maximum number of characters of a text field
+  maxLength?: number;
+}
+
+export interface TemplateConfig {
+  // The template ID, or '*' for the settings that apply to every template
+  id: string;
+  // Templates with a name are listed in the template gallery, refer to utility/templateRegistry.ts
+  name?: string;
+  // The URL of a preview image
+  thumbnail?: string;
+  category?: string;
+  // Group and field settings by element name. Names may contain '*' as a wildcard, e.g. 'Slide-*-Text'
+  groups?: Record<string, FieldSettings>;
+  fields?: Record<string, FieldSettings>;
+}
+
+export type FieldType = 'text' | 'image' | 'video' | 'color';
+
+export interface Field {
+  type: FieldType;
+  // The key in the modifications object that is changed by this field
+  // Refer to: https://creatomate.com/docs/api/rest-api/the-modifications-object
+  selector: string;
+  label: string;
+  placeholder?: string;
+  maxLength?: number;
+  element: ElementState;
+}
+
+export interface FieldGroup {
+  name: string;
+  label: string;
+  // The composition element the fields belong to, if any
+  composition?: ElementState;
+  fields: Field[];
+}
+
+export function getTemplateConfig(templateId: string): TemplateConfig {
+  const configs = templates as TemplateConfig[];
+  const defaultConfig = configs.find((config) => config.id === '*');
+  const templateConfig = configs.find((config) => config.id === templateId);
+
+  // The template's own settings take precedence over the defaults
+  return {
+    id: templateId,
+    groups: { ...defaultConfig?.groups, ...templateConfig?.groups },
+    fields: { ...defaultConfig?.fields, ...templateConfig?.fields },
+  };
+}
+
+// Builds the fields of the settings panel from the elements of the template
+export function getFieldGroups(state: PreviewState, config: TemplateConfig): FieldGroup[] {
+  const groups: FieldGroup[] = [];
+  const fieldOrders = new Map<Field, number | undefined>();
+
+  const findGroup = (name: string, composition?: ElementState) => {
+    let group = groups.find((group) => group.name === name);
+    if (!group) {
+      group = { name, label: findSettings(config.groups, name)?.label ?? formatName(name), composition, fields: [] };
+      groups.push(group);
+    }
+    return group;
+  };
+
+  const visit = (elements: ElementState[], composition?: ElementState) => {
+    for (const element of elements) {
+      if (element.source.type === 'composition') {
+        if (element.source.name) {
+          findGroup(element.source.name, element);
+        }
+        visit((element as CompositionState).elements ?? [], element.source.name ? element : composition);
+        continue;
+      }
+
+      const type = getFieldType(element);
+      const name = element.source.name;
+      if (!type || !name) {
+        continue;
+      }
+
+      const settings = findSettings(config.fields, name);
+      if (settings?.hidden) {
+        continue;
+      }
+
+      const field: Field = {
+        type,
+        selector: type === 'color' ? `${name}.fill_color` : name,
+        label: settings?.label ?? formatName(name),
+        placeholder: settings?.placeholder ?? (type === 'text' ? element.source.text : undefined),
+        maxLength: type === 'text' ? settings?.maxLength : undefined,
+        element,
+      };
+
+      fieldOrders.set(field, settings?.order);
+      findGroup(settings?.group ?? composition?.source.name ?? 'General', composition).fields.push(field);
+    }
+  };
+
+  visit(state.elements);
+
+  for (const group of groups) {
+    group.fields = sortByOrder(group.fields, (field) => fieldOrders.get(field));
+  }
+
+  // Groups without fields are kept when they are compositions with a transition, as these can still be edited
+  return sortByOrder(
+    groups.filter((group) => !findSettings(config.groups, group.name)?.hidden),
+    (group) => findSettings(config.groups, group.name)?.order,
+  ).filter((group) => group.fields.length > 0 || getTransitionAnimation(group.composition));
+}
+
+export function getTransitionAnimation(element?: ElementState): Record<string, any> | undefined {
+  return element?.source.animations?.find((animation: any) => animation.transition);
+}
+
+const getFieldType = (element: ElementState): FieldType | undefined => {
+  switch (element.source.type) {
+    case 'text':
+      return 'text';
+    case 'image':
+      return 'image';
+    case 'video':
+      return 'video';
+    case 'shape':
+      return 'color';
+  }
+};
+
+// Finds the settings by exact name first, then by the first matching wildcard pattern
+const findSettings = (settings: Record<string, FieldSettings> | undefined, name: string) => {
+  if (!settings) {
+    return undefined;
+  }
+
+  if (settings[name]) {
+    return settings[name];
+  }
+
+  const pattern = Object.keys(settings).find((pattern) => pattern.includes('*') && matchesPattern(pattern, name));
+  return pattern ? settings[pattern] : undefined;
+};
+
+const matchesPattern = (pattern: string, name: string) => {
+  const expression = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${expression}$`).test(name);
+};
+
+// Converts an element name such as 'Start-Text' into a label such as 'Start Text'
+const formatName = (name: string) => name.replace(/[-_]+/g, ' ');
+
+// Items with an order come first in ascending order, the others follow in the order of the template
+const sortByOrder = <T>(items: T[], getOrder: (item: T) => number | undefined) => {
+  const ordered = items.filter((item) => getOrder(item) !== undefined);
+  const unordered = items.filter((item) => getOrder(item) === undefined);
+  return [...ordered.sort((a, b) => getOrder(a)! - getOrder(b)!), ...unordered];
+};
@@ -0,0 +1,44 @@
+import templates from '../config/templates.json';
+import type { TemplateConfig } from './templateFields';
+
+// A template that can be chosen in the template gallery
+export interface TemplateInfo {
+  id: string;
+  name: string;
+  thumbnail?: string;
+  category: string;
+}
+
+// The template that is opened when no template is chosen, as set up in the README
+export function getDefaultTemplateId() {
+  return process.env.NEXT_PUBLIC_TEMPLATE_ID!;
+}
+
+// Lists the templates that have a name in config/templates.json, along with the default template
+export function listTemplates(): TemplateInfo[] {
+  const registeredTemplates = (templates as TemplateConfig[])
+    .filter((config) => config.id !== '*' && config.name)
+    .map(
+      (config): TemplateInfo => ({
+        id: config.id,
+        name: config.name!,
+        thumbnail: config.thumbnail,
+        category: config.category ?? 'Other',
+      }),
+    );
+
+  const defaultTemplateId = getDefaultTemplateId();
+  if (defaultTemplateId && !registeredTemplates.some((template) => template.id === defaultTemplateId)) {
+    registeredTemplates.unshift({
+      id: defaultTemplateId,
+      name: 'Image Slideshow w/ Intro and Outro',
+      category: 'Slideshows',
+    });
+  }
+
+  return registeredTemplates;
+}
+
+export function findTemplate(templateId: string) {
+  return listTemplates().find((template) => template.id === templateId);
+}
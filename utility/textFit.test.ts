@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { PreviewState } from '@creatomate/preview';
+import { getOverflowingTexts } from './textFit';
+
+const sentence = 'The quick brown fox jumps over the lazy dog';
+
+// A square video of 1000 pixels, with the provided elements in the state that the preview computes
+const createState = (elements: Record<string, any>[]) => {
+  const toState = (source: Record<string, any>): Record<string, any> => ({
+    source,
+    elements: source.elements?.map(toState),
+  });
+  return { width: 1000, height: 1000, elements: elements.map(toState) } as unknown as PreviewState;
+};
+
+const getNames = (state: PreviewState) => getOverflowingTexts(state).map((element) => element.source.name);
+
+describe('getOverflowingTexts', () => {
+  it('returns the texts that need more lines than fit in their box', () => {
+    const state = createState([
+      { name: 'Fits', type: 'text', text: 'Hello world', width: '50%', height: '10%', font_size: '40 px' },
+      { name: 'Overflows', type: 'text', text: sentence, width: 200, height: '5%', font_size: '4 vmin' },
+      { name: 'Grows', type: 'text', text: sentence, width: 200, font_size: '4 vmin' },
+      { name: 'Image', type: 'image', width: 10, height: 10 },
+    ]);
+
+    expect(getNames(state)).toEqual(['Overflows']);
+  });
+
+  it('checks texts that shrink to fit at their minimum font size', () => {
+    const state = createState([
+      { name: 'Default', type: 'text', text: sentence, width: 200, height: 50 },
+      { name: 'Minimum', type: 'text', text: sentence, width: 200, height: 50, font_size_minimum: '1 vmin' },
+      { name: 'Auto', type: 'text', text: sentence, width: 200, height: 50, font_size: 'auto' },
+    ]);
+
+    expect(getNames(state)).toEqual(['Default', 'Auto']);
+  });
+
+  it('breaks words that are longer than a line, and checks the texts in compositions', () => {
+    const text = (height: number) => ({
+      type: 'text',
+      text: 'Supercalifragilistic',
+      width: 110,
+      height,
+      font_size: 20,
+    });
+    const state = createState([
+      {
+        name: 'Slide-1',
+        type: 'composition',
+        elements: [
+          { name: 'Slide-1-Text', ...text(40) },
+          { name: 'Slide-1-Title', ...text(50) },
+        ],
+      },
+    ]);
+
+    expect(getNames(state)).toEqual(['Slide-1-Text']);
+  });
+});
@@ -0,0 +1,113 @@
+import { CompositionState, ElementState, PreviewState } from '@creatomate/preview';
+
+// Estimates whether the texts of the video fit in their text boxes, so that overflowing text is noticed before rendering
+// The text isn't measured in the actual font, but with an average character width, which is accurate enough to warn
+
+// The average width of a character and the default line height, relative to the font size
+const averageCharWidth = 0.55;
+const defaultLineHeight = 1.2;
+
+// Texts without a font size are shrunk to fit their box, but become unreadable below this size in vmin
+const minAutoFontSize = 4;
+
+// Returns the text elements of which the text doesn't fit in the width and height of their box
+export function getOverflowingTexts(state: PreviewState): ElementState[] {
+  const texts: ElementState[] = [];
+
+  const visit = (elements: ElementState[]) => {
+    for (const element of elements) {
+      if (element.source.type === 'text' && !fitsInBox(element.source, state.width, state.height)) {
+        texts.push(element);
+      }
+      visit((element as CompositionState).elements ?? []);
+    }
+  };
+
+  visit(state.elements);
+  return texts;
+}
+
+// The positions and sizes of elements in compositions are taken relative to the video, as compositions usually fill it
+const fitsInBox = (source: Record<string, any>, videoWidth: number, videoHeight: number) => {
+  const text = typeof source.text === 'string' ? source.text : '';
+  const boxWidth = toPixels(source.width, videoWidth, videoWidth, videoHeight);
+  const boxHeight = toPixels(source.height, videoHeight, videoWidth, videoHeight);
+
+  // A text without a width or height grows along with its text
+  if (!text.trim() || boxWidth === undefined || boxHeight === undefined) {
+    return true;
+  }
+
+  const lineHeight = parseFloat(source.line_height) || defaultLineHeight;
+  const fits = (fontSize: number) => {
+    const charsPerLine = Math.max(Math.floor(boxWidth / (fontSize * averageCharWidth)), 1);
+    return countLines(text, charsPerLine) * fontSize * lineHeight <= boxHeight;
+  };
+
+  const fontSize =
+    source.font_size === undefined || source.font_size === 'auto'
+      ? undefined
+      : toPixels(source.font_size, videoHeight, videoWidth, videoHeight);
+  if (fontSize !== undefined) {
+    return fits(fontSize);
+  }
+
+  const minFontSize =
+    toPixels(source.font_size_minimum, videoHeight, videoWidth, videoHeight) ??
+    (minAutoFontSize / 100) * Math.min(videoWidth, videoHeight);
+  return fits(minFontSize);
+};
+
+// Counts the lines when the text is wrapped at word boundaries, breaking words that are longer than a line
+const countLines = (text: string, charsPerLine: number) => {
+  let lineCount = 0;
+
+  for (const paragraph of text.split('\n')) {
+    let lineLength = 0;
+    lineCount++;
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const length = lineLength > 0 ? lineLength + 1 + word.length : word.length;
+      if (length <= charsPerLine) {
+        lineLength = length;
+      } else {
+        // The word starts on a new line, and is broken over several lines when it's longer than a line
+        if (lineLength > 0) {
+          lineCount++;
+        }
+        lineCount += Math.ceil(word.length / charsPerLine) - 1;
+        lineLength = word.length % charsPerLine || charsPerLine;
+      }
+    }
+  }
+
+  return lineCount;
+};
+
+// Converts a size such as '70%', '8 vmin', '40 px', or 40 into pixels, with percentages relative to the provided size
+const toPixels = (value: unknown, relativeTo: number, videoWidth: number, videoHeight: number) => {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const match = typeof value === 'string' ? value.trim().match(/^(-?[\d.]+)\s*(%|px|vw|vh|vmin|vmax)?$/) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const number = parseFloat(match[1]);
+  switch (match[2]) {
+    case '%':
+      return (number / 100) * relativeTo;
+    case 'vw':
+      return (number / 100) * videoWidth;
+    case 'vh':
+      return (number / 100) * videoHeight;
+    case 'vmin':
+      return (number / 100) * Math.min(videoWidth, videoHeight);
+    case 'vmax':
+      return (number / 100) * Math.max(videoWidth, videoHeight);
+    default:
+      return number;
+  }
+};
@@ -0,0 +1,66 @@
+import { CompositionState, ElementState, PreviewState } from '@creatomate/preview';
+
+export interface TimelineBlock {
+  element: ElementState;
+  label: string;
+  // Start and duration in seconds, relative to the entire video
+  start: number;
+  duration: number;
+}
+
+export interface TimelineLane {
+  key: string;
+  label: string;
+  blocks: TimelineBlock[];
+}
+
+// Lays out the named compositions and text elements of the video, with one lane per track
+// Text elements inside a composition are shown in a lane right below the track of that composition
+export function getTimelineLanes(state: PreviewState): TimelineLane[] {
+  const lanes = new Map<string, TimelineLane>();
+
+  const addBlock = (key: string, label: string, element: ElementState) => {
+    let lane = lanes.get(key);
+    if (!lane) {
+      lane = { key, label, blocks: [] };
+      lanes.set(key, lane);
+    }
+
+    lane.blocks.push({
+      element,
+      label: element.source.name.replace(/[-_]+/g, ' '),
+      start: element.globalTime,
+      duration: element.duration,
+    });
+  };
+
+  const visitNested = (elements: ElementState[], track: number) => {
+    for (const element of elements) {
+      if (element.source.type === 'text' && element.source.name) {
+        addBlock(`${track}-text`, `${track} · Text`, element);
+      } else if (element.source.type === 'composition') {
+        visitNested((element as CompositionState).elements ?? [], track);
+      }
+    }
+  };
+
+  for (const element of [...state.elements].sort((a, b) => a.track - b.track)) {
+    const isBlock = element.source.name && (element.source.type === 'composition' || element.source.type === 'text');
+    if (isBlock) {
+      addBlock(String(element.track), String(element.track), element);
+    }
+
+    if (element.source.type === 'composition') {
+      visitNested((element as CompositionState).elements ?? [], element.track);
+    }
+  }
+
+  return Array.from(lanes.values());
+}
+
+// Formats a time in seconds as 'm:ss.s'
+export function formatTime(time: number) {
+  const minutes = Math.floor(time / 60);
+  const seconds = (time - minutes * 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+}
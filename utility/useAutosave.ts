@@ -0,0 +1,35 @@
+import { useEffect, useRef, useState } from 'react';
+
+export type AutosaveStatus = 'saved' | 'unsaved' | 'saving' | 'error';
+
+// Calls the save function once no further changes have been made for the provided delay (in milliseconds)
+// The revision should be incremented on every change, revision 0 is considered to be the initial unchanged state
+export function useAutosave(save: (() => Promise<void> | void) | undefined, revision: number, delay: number) {
+  const [status, setStatus] = useState<AutosaveStatus>('saved');
+
+  // Always call the latest save function, without restarting the delay when it changes
+  const saveRef = useRef(save);
+  saveRef.current = save;
+
+  useEffect(() => {
+    if (revision === 0 || !saveRef.current) {
+      return;
+    }
+
+    setStatus('unsaved');
+
+    const timeout = setTimeout(async () => {
+      setStatus('saving');
+      try {
+        await saveRef.current?.();
+        setStatus('saved');
+      } catch (error) {
+        setStatus('error');
+      }
+    }, delay);
+
+    return () => clearTimeout(timeout);
+  }, [revision, delay]);
+
+  return status;
+}
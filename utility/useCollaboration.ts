@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EditorStore, EditSnapshot } from './editorStore';
+import { applyChange, Change, ClientMessage, getChanges, Peer, ServerMessage } from './collaboration';
+import { readApiError } from './apiErrors';
+
+// How long to wait before connecting again after the connection was lost, in milliseconds
+const reconnectDelay = 3000;
+
+// Shares the changes made in the editor with the other people editing the same project, and applies theirs
+// The changes of the others are also passed to onRemoteChange, so that they can be applied to the undo history
+// Refer to utility/collaboration.ts for how concurrent changes are resolved
+export function useCollaboration(
+  projectId: string | undefined,
+  editor: EditorStore,
+  onRemoteChange?: (change: Change) => void,
+) {
+  const { state, dispatch, getState } = editor;
+
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+
+  const socketRef = useRef<WebSocket>();
+  const clientIdRef = useRef<string>();
+  // The state of the session as confirmed by the server, and the changes that the server hasn't confirmed yet
+  const confirmedRef = useRef<EditSnapshot>();
+  const pendingRef = useRef<Change[]>([]);
+  // The state that was last shared, from which the next local changes are determined
+  // It's kept when the connection is lost, so that the changes made while offline can be sent after reconnecting
+  const sharedRef = useRef<EditSnapshot>();
+
+  const send = useCallback((message: ClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message));
+    }
+  }, []);
+
+  // Sends the changes made since the last time, which the server confirms by sending them back
+  const shareChanges = useCallback(() => {
+    const shared = sharedRef.current;
+    if (!shared || !confirmedRef.current) {
+      return;
+    }
+
+    const { source, modifications } = getState();
+    for (const change of getChanges(shared, { source, modifications })) {
+      pendingRef.current.push(change);
+      send({ type: 'change', change });
+    }
+    sharedRef.current = { source, modifications };
+  }, [getState, send]);
+
+  // Replaces the state of the editor, without sharing it as a change of its own
+  const applyRemoteState = useCallback(
+    (snapshot: EditSnapshot) => {
+      dispatch({ type: 'replace', snapshot });
+      sharedRef.current = snapshot;
+    },
+    [dispatch],
+  );
+
+  const handleMessage = useCallback(
+    (message: ServerMessage) => {
+      if (message.type === 'welcome') {
+        const { source, modifications } = getState();
+        const local = { source, modifications };
+        const shared = sharedRef.current;
+
+        // Keep a known source object when it's the same, so that the preview doesn't reload it
+        const sourceJson = JSON.stringify(message.source);
+        const confirmed = {
+          source: [shared?.source, source].find((known) => JSON.stringify(known) === sourceJson) ?? message.source,
+          modifications: message.modifications,
+        };
+
+        // After reconnecting, the changes that the server may have missed are sent again, including the offline ones
+        // Without a previous connection, the state of the session replaces the local state instead
+        const unconfirmedChanges = shared ? [...pendingRef.current, ...getChanges(shared, local)] : [];
+        getChanges(shared ?? local, confirmed).forEach((change) => onRemoteChange?.(change));
+
+        clientIdRef.current = message.clientId;
+        confirmedRef.current = confirmed;
+        pendingRef.current = unconfirmedChanges;
+        unconfirmedChanges.forEach((change) => send({ type: 'change', change }));
+        applyRemoteState(unconfirmedChanges.reduce(applyChange, confirmed));
+        setIsConnected(true);
+      } else if (message.type === 'change' && confirmedRef.current) {
+        if (message.clientId === clientIdRef.current) {
+          // The local change has been confirmed, it's applied as it was made so that its source object is kept
+          const change = pendingRef.current.shift() ?? message.change;
+          confirmedRef.current = applyChange(confirmedRef.current, change);
+          return;
+        }
+
+        // Local changes that haven't been sent yet must be part of the changes that are reapplied
+        shareChanges();
+        confirmedRef.current = applyChange(confirmedRef.current, message.change);
+        applyRemoteState(pendingRef.current.reduce(applyChange, confirmedRef.current));
+        onRemoteChange?.(message.change);
+      } else if (message.type === 'presence') {
+        setPeers(message.peers.filter((peer) => peer.id !== clientIdRef.current));
+      }
+    },
+    [getState, send, applyRemoteState, shareChanges, onRemoteChange],
+  );
+
+  useEffect(() => {
+    if (!projectId) {
+      return;
+    }
+
+    let isStopped = false;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async () => {
+      try {
+        await startCollaborationServer();
+      } catch (error) {
+        // Without collaboration, the project can still be edited on its own
+        return;
+      }
+
+      if (isStopped) {
+        return;
+      }
+
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      const socket = new WebSocket(
+        `${protocol}//${window.location.host}/api/collaboration/socket?project=${encodeURIComponent(projectId)}`,
+      );
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        const { source, modifications } = getState();
+        send({ type: 'join', source, modifications });
+      };
+
+      socket.onmessage = (event) => handleMessage(JSON.parse(event.data));
+
+      socket.onclose = () => {
+        socketRef.current = undefined;
+        confirmedRef.current = undefined;
+        setIsConnected(false);
+        setPeers([]);
+
+        if (!isStopped) {
+          reconnectTimeout = setTimeout(connect, reconnectDelay);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      isStopped = true;
+      clearTimeout(reconnectTimeout);
+      socketRef.current?.close();
+      sharedRef.current = undefined;
+      pendingRef.current = [];
+    };
+  }, [projectId, getState, send, handleMessage]);
+
+  useEffect(() => {
+    shareChanges();
+  }, [state.source, state.modifications, shareChanges]);
+
+  // Let the others know which field is being edited
+  useEffect(() => {
+    if (isConnected) {
+      send({ type: 'focus', elementName: state.selectedElementName });
+    }
+  }, [isConnected, state.selectedElementName, send]);
+
+  return { peers, isConnected };
+}
+
+const startCollaborationServer = async () => {
+  const response = await fetch('/api/collaboration', { method: 'POST' });
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+};
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EditorStore, EditSnapshot } from './editorStore';
+import { applyChange, Change } from './collaboration';
+
+// Consecutive changes with the same merge key within this interval (in milliseconds) are combined into one undo step
+const mergeInterval = 1000;
+
+// The maximum number of undo steps that are kept in memory
+const maxUndoSteps = 100;
+
+// The snapshots are the states of the editor store, which are never changed in place and can be kept as they are
+export function useEditHistory(editor: EditorStore) {
+  const undoStackRef = useRef<EditSnapshot[]>([]);
+  const redoStackRef = useRef<EditSnapshot[]>([]);
+  const lastChangeRef = useRef<{ mergeKey?: string; time: number }>();
+
+  // Incremented on every change, undo and redo, which also updates the component when the modifications are restored
+  const [revision, setRevision] = useState(0);
+
+  const { getState, dispatch } = editor;
+
+  const takeSnapshot = useCallback((): EditSnapshot => {
+    const { source, modifications } = getState();
+    return { source, modifications };
+  }, [getState]);
+
+  // Call this right before making a change, so that the current state can be restored later on
+  // Changes sharing the same merge key, such as keystrokes in a text input, are merged into a single undo step
+  const record = useCallback(
+    (mergeKey?: string) => {
+      const now = Date.now();
+      const lastChange = lastChangeRef.current;
+      lastChangeRef.current = { mergeKey, time: now };
+      setRevision((revision) => revision + 1);
+
+      if (mergeKey && lastChange?.mergeKey === mergeKey && now - lastChange.time < mergeInterval) {
+        return;
+      }
+
+      undoStackRef.current.push(takeSnapshot());
+      if (undoStackRef.current.length > maxUndoSteps) {
+        undoStackRef.current.shift();
+      }
+
+      redoStackRef.current = [];
+    },
+    [takeSnapshot],
+  );
+
+  // The preview only reloads the source when the snapshot has a different one, as sources are compared by reference
+  const restore = useCallback(
+    (snapshot: EditSnapshot) => {
+      lastChangeRef.current = undefined;
+      setRevision((revision) => revision + 1);
+      dispatch({ type: 'replace', snapshot });
+    },
+    [dispatch],
+  );
+
+  const undo = useCallback(() => {
+    const snapshot = undoStackRef.current.pop();
+    if (snapshot) {
+      redoStackRef.current.push(takeSnapshot());
+      restore(snapshot);
+    }
+  }, [takeSnapshot, restore]);
+
+  const redo = useCallback(() => {
+    const snapshot = redoStackRef.current.pop();
+    if (snapshot) {
+      undoStackRef.current.push(takeSnapshot());
+      restore(snapshot);
+    }
+  }, [takeSnapshot, restore]);
+
+  // Forgets all undo and redo steps, e.g. when a different template is loaded that the steps don't apply to
+  const reset = useCallback(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    lastChangeRef.current = undefined;
+    setRevision((revision) => revision + 1);
+  }, []);
+
+  // Applies a change that someone else made in a collaboration session to the undo and redo steps, so that restoring a
+  // step only reverts the user's own edits. The steps can't be applied to a changed source, so they're forgotten then
+  const rebase = useCallback(
+    (change: Change) => {
+      if (change.type === 'source') {
+        reset();
+        return;
+      }
+
+      undoStackRef.current = undoStackRef.current.map((snapshot) => applyChange(snapshot, change));
+      redoStackRef.current = redoStackRef.current.map((snapshot) => applyChange(snapshot, change));
+    },
+    [reset],
+  );
+
+  // Keyboard shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z or Ctrl+Y to redo (Cmd instead of Ctrl on macOS)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!e.ctrlKey && !e.metaKey) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    revision,
+    record,
+    undo,
+    redo,
+    reset,
+    rebase,
+    canUndo: undoStackRef.current.length > 0,
+    canRedo: redoStackRef.current.length > 0,
+  };
+}